@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-    reactStrictMode: false
+    reactStrictMode: false,
+    env: {
+        // Lets the browser know which event provider the server uses (e.g. to validate imported IDs)
+        NEXT_PUBLIC_EVENT_PROVIDER: process.env.EVENT_PROVIDER || "predicthq"
+    }
 };
 
 export default nextConfig;
@@ -2,10 +2,13 @@
  * Event Detail Page
  * 
  * Displays detailed information about a single event:
+ * - Status (cancelled, postponed, ...) when the event isn't active
  * - Full event description
  * - Date and time details
- * - Venue information with map integration
+ * - Venue information with map integration, or a "Join online" link for online events
+ * - Expected attendance, impact and labels (when available)
  * - Link to purchase tickets
+ * - Add to calendar (.ics, Google, Outlook)
  * - Save/bookmark functionality
  */
 
@@ -13,9 +16,17 @@
 
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { Event } from "@/types/event";
-import { getEventById } from "@/services/predicthq";
-import { isEventSaved, saveEventId, removeEventId } from "@/services/localStorage";
+import { Event, EventStatus } from "@/types/event";
+import { getEventById } from "@/services/eventsApi";
+import { useAppDispatch, useAppSelector } from "@/redux/hooks";
+import { eventSaved, savedEventRemoved, selectIsEventSaved } from "@/redux/slices/savedEventsSlice";
+import { formatPrice } from "@/utils/price";
+import { formatEventSchedule, formatViewerLocalStart } from "@/utils/dateFormat";
+import AddToCalendar from "@/components/events/AddToCalendar";
+import EventInsights from "@/components/events/EventInsights";
+import EventStatusBadge from "@/components/events/EventStatusBadge";
+import { getEventStatus, hasStatusBadge } from "@/utils/eventStatus";
+import { hasInsights } from "@/utils/insights";
 import { toast } from "react-toastify";
 import { 
   Calendar, 
@@ -24,9 +35,18 @@ import {
   ExternalLink, 
   Heart,
   ArrowLeft,
-  Loader2
+  Loader2,
+  Globe
 } from "lucide-react";
 
+// Explanations shown for events that may not go ahead as listed
+const STATUS_NOTICES: Partial<Record<EventStatus, string>> = {
+  predicted: "This event is predicted to happen but hasn't been confirmed yet. Details may change.",
+  postponed: "This event has been postponed. Check with the organizer for the new date.",
+  cancelled: "This event has been cancelled.",
+  deleted: "This event has been removed by the event source and may not take place.",
+};
+
 export default function EventDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -37,7 +57,8 @@ export default function EventDetailPage() {
   const [event, setEvent] = useState<Event | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [isSaved, setIsSaved] = useState(false);
+  const dispatch = useAppDispatch();
+  const isSaved = useAppSelector((state) => (eventId ? selectIsEventSaved(state, eventId) : false));
 
   // Load event details
   useEffect(() => {
@@ -54,7 +75,6 @@ export default function EventDetailPage() {
         setError(null);
         const eventData = await getEventById(eventId);
         setEvent(eventData);
-        setIsSaved(isEventSaved(eventId));
       } catch (err: any) {
         // Show the actual error message from the API for better debugging
         setError(err?.message || "Failed to load event details. Please try again.");
@@ -68,7 +88,7 @@ export default function EventDetailPage() {
 
   // Handle save/unsave
   const handleSaveToggle = () => {
-    if (!eventId) {
+    if (!eventId || !event) {
       toast.error("Cannot save event: Event ID is missing.", {
         position: "top-right",
         autoClose: 3000,
@@ -77,15 +97,13 @@ export default function EventDetailPage() {
     }
 
     if (isSaved) {
-      removeEventId(eventId);
-      setIsSaved(false);
+      dispatch(savedEventRemoved(eventId));
       toast.success("Event removed from saved events", {
         position: "top-right",
         autoClose: 2000,
       });
     } else {
-      saveEventId(eventId);
-      setIsSaved(true);
+      dispatch(eventSaved(event));
       toast.success("Event saved!", {
         position: "top-right",
         autoClose: 2000,
@@ -93,37 +111,6 @@ export default function EventDetailPage() {
     }
   };
 
-  // Format date for display
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return {
-      date: date.toLocaleDateString("en-US", {
-        weekday: "long",
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      }),
-      time: date.toLocaleTimeString("en-US", {
-        hour: "numeric",
-        minute: "2-digit",
-      }),
-    };
-  };
-
-  // Format price display
-  const formatPrice = () => {
-    if (!event?.price) {
-      return "Free";
-    }
-    if (event.price.min === 0) {
-      return "Free";
-    }
-    if (event.price.min && event.price.max && event.price.min !== event.price.max) {
-      return `$${event.price.min} - $${event.price.max}`;
-    }
-    return `$${event.price.min}`;
-  };
-
   // Get Google Maps URL
   const getMapUrl = () => {
     if (event?.venue?.latitude && event?.venue?.longitude) {
@@ -195,13 +182,10 @@ export default function EventDetailPage() {
 
   if (error || !event) {
     const isNotFound = error?.includes("not found") || error?.includes("invalid");
-    const isSaved = eventId ? isEventSaved(eventId) : false;
-    
     // Handle removing invalid event from saved events
     const handleRemoveFromSaved = () => {
       if (isSaved && eventId) {
-        removeEventId(eventId);
-        setIsSaved(false);
+        dispatch(savedEventRemoved(eventId));
       }
     };
     
@@ -256,7 +240,8 @@ export default function EventDetailPage() {
     );
   }
 
-  const dateInfo = formatDate(event.startDate);
+  const dateInfo = formatEventSchedule(event);
+  const localStart = formatViewerLocalStart(event);
   const mapUrl = getMapUrl();
 
   return (
@@ -274,6 +259,13 @@ export default function EventDetailPage() {
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         {/* Event Header with Category */}
         <div className="relative bg-gradient-to-r from-blue-500 to-purple-600 p-6 md:p-8">
+          {/* Online Event Badge */}
+          {event.isOnline && (
+            <div className="inline-block mr-2 px-4 py-2 bg-green-500 text-white text-sm font-semibold rounded-full mb-4">
+              Online Event
+            </div>
+          )}
+
           {/* Category Badge */}
           {event.category && (
             <div className="inline-block px-4 py-2 bg-white/20 backdrop-blur-sm text-white text-sm font-semibold rounded-full mb-4">
@@ -294,18 +286,24 @@ export default function EventDetailPage() {
             <Heart className={`h-6 w-6 ${isSaved ? "fill-current" : ""}`} />
           </button>
 
-          {/* Online Event Badge */}
-          {event.isOnline && (
-            <div className="absolute top-4 left-4 px-3 py-1 bg-green-500 text-white text-sm font-medium rounded-full">
-              Online Event
-            </div>
-          )}
         </div>
 
         {/* Event Info */}
         <div className="p-6 md:p-8">
+          {hasStatusBadge(event) && (
+            <div className="mb-3">
+              <EventStatusBadge status={getEventStatus(event)} size="md" />
+            </div>
+          )}
           <h1 className="text-3xl font-bold text-gray-900 mb-4">{event.name}</h1>
 
+          {/* Status notice */}
+          {STATUS_NOTICES[getEventStatus(event)] && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              {STATUS_NOTICES[getEventStatus(event)]}
+            </div>
+          )}
+
           {/* Key Details Grid */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
             {/* Date & Time */}
@@ -315,11 +313,35 @@ export default function EventDetailPage() {
                 <div className="text-sm font-medium text-gray-500">Date & Time</div>
                 <div className="text-gray-900">{dateInfo.date}</div>
                 <div className="text-gray-600">{dateInfo.time}</div>
+                {localStart && (
+                  <div className="text-sm text-gray-500">{localStart} in your time zone</div>
+                )}
               </div>
             </div>
 
-            {/* Venue/Location */}
-            {event.venue && (
+            {/* Venue/Location, or how to join an online event */}
+            {event.isOnline ? (
+              <div className="flex items-start gap-3">
+                <Globe className="h-5 w-5 text-green-600 mt-1 flex-shrink-0" />
+                <div>
+                  <div className="text-sm font-medium text-gray-500">Online Event</div>
+                  <div className="text-gray-900">Join from anywhere</div>
+                  {event.url && !isGoogleSearchUrl ? (
+                    <a
+                      href={event.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-2 inline-flex items-center gap-1 rounded-lg bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-700 transition-colors"
+                    >
+                      Join online
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  ) : (
+                    <div className="text-gray-600 text-sm">The organizer shares the joining link with attendees.</div>
+                  )}
+                </div>
+              </div>
+            ) : event.venue && (
               <div className="flex items-start gap-3">
                 <MapPin className="h-5 w-5 text-blue-600 mt-1 flex-shrink-0" />
                 <div>
@@ -346,7 +368,7 @@ export default function EventDetailPage() {
               <DollarSign className="h-5 w-5 text-blue-600 mt-1 flex-shrink-0" />
               <div>
                 <div className="text-sm font-medium text-gray-500">Price</div>
-                <div className="text-gray-900 font-semibold">{formatPrice()}</div>
+                <div className="text-gray-900 font-semibold">{formatPrice(event.price)}</div>
               </div>
             </div>
           </div>
@@ -361,6 +383,9 @@ export default function EventDetailPage() {
             </div>
           )}
 
+          {/* Attendance and impact predictions */}
+          {hasInsights(event.insights) && <EventInsights insights={event.insights} />}
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4">
             {event.url ? (
@@ -403,6 +428,7 @@ export default function EventDetailPage() {
               <Heart className={`h-5 w-5 ${isSaved ? "fill-current" : ""}`} />
               <span>{isSaved ? "Saved" : "Save Event"}</span>
             </button>
+            <AddToCalendar event={event} />
           </div>
         </div>
       </div>
@@ -1,62 +1,189 @@
 /**
  * My Events Page
  * 
- * Displays all events that the user has saved/bookmarked.
- * Events are stored in localStorage and fetched from the API when viewing this page.
+ * Displays all events that the user has saved/bookmarked, with tabs for the
+ * user's collections and filters for their tags. Events that have been
+ * cancelled, postponed or otherwise changed status since they were saved
+ * are flagged.
+ * Events are rendered straight away from the snapshots in the saved events
+ * store, then refreshed from the API in the background.
  */
 
 "use client";
 
-import { useState, useEffect } from "react";
-import { Event } from "@/types/event";
-import { getEventsByIds } from "@/services/predicthq";
-import { getSavedEventIds, clearSavedEvents } from "@/services/localStorage";
+import { useState, useEffect, useMemo } from "react";
+import { Event, SavedEvent } from "@/types/event";
+import { getEventsByIds } from "@/services/eventsApi";
+import { useAppDispatch, useAppSelector } from "@/redux/hooks";
+import { selectIsRehydrated } from "@/redux/store";
+import {
+  selectCollections,
+  selectSavedEvents,
+  selectSavedEventTags,
+  savedEventsCleared,
+  savedEventsRemoved,
+  savedEventSnapshotsUpdated,
+  savedEventStatusAcknowledged,
+} from "@/redux/slices/savedEventsSlice";
+import { selectPreferences, viewModeChanged } from "@/redux/slices/preferencesSlice";
+import { selectUserLocation } from "@/redux/slices/locationSlice";
+import dynamic from "next/dynamic";
 import EventCard from "@/components/events/EventCard";
-import { Heart, Loader2, Trash2 } from "lucide-react";
+import ViewModeToggle from "@/components/events/ViewModeToggle";
+import SavedEventsBackup from "@/components/events/SavedEventsBackup";
+import SavedEventOrganizer from "@/components/events/SavedEventOrganizer";
+import CollectionTabs from "@/components/events/CollectionTabs";
+import { Heart, Loader2, Trash2, AlertTriangle, CalendarPlus, Tag } from "lucide-react";
+import { buildIcsCalendar } from "@/utils/calendar";
+import { downloadFile } from "@/utils/download";
+import { getEventStatus, getEventStatusOption, hasStatusChanged } from "@/utils/eventStatus";
+
+// Leaflet needs `window`, so the map is only rendered in the browser
+const EventMap = dynamic(() => import("@/components/events/EventMap"), {
+  ssr: false,
+  loading: () => (
+    <div className="flex items-center justify-center h-[600px] bg-gray-50 rounded-xl">
+      <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+    </div>
+  ),
+});
 
 export default function MyEventsPage() {
-  const [savedEvents, setSavedEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
+  const dispatch = useAppDispatch();
+  const saved = useAppSelector(selectSavedEvents);
+  const isRehydrated = useAppSelector(selectIsRehydrated);
+  const { viewMode } = useAppSelector(selectPreferences);
+  const userLocation = useAppSelector(selectUserLocation);
+  const [hasRefreshed, setHasRefreshed] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState<string[]>([]);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const collections = useAppSelector(selectCollections);
+  const allTags = useAppSelector(selectSavedEventTags);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  // Show whatever snapshots we have in the store
+  const savedEvents = useMemo(
+    () => saved.map((entry) => entry.event).filter((event): event is Event => event !== undefined),
+    [saved]
+  );
+
+  // Ignore a collection or tags that have since been deleted (e.g. in another tab)
+  const activeCollectionId = collections.some((collection) => collection.id === selectedCollectionId)
+    ? selectedCollectionId
+    : null;
+  const activeTags = selectedTags.filter((tag) => allTags.includes(tag));
+
+  // Saved events in the active collection that have every selected tag
+  const visibleSaved = useMemo(
+    () =>
+      saved.filter(
+        (entry): entry is SavedEvent & { event: Event } =>
+          entry.event !== undefined &&
+          (activeCollectionId === null || !!entry.collectionIds?.includes(activeCollectionId)) &&
+          activeTags.every((tag) => entry.tags?.includes(tag))
+      ),
+    [saved, activeCollectionId, activeTags.join(",")]
+  );
+  const visibleEvents = useMemo(() => visibleSaved.map((entry) => entry.event), [visibleSaved]);
+
+  // Number of saved events in each collection, for the tabs
+  const collectionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    saved.forEach((entry) => {
+      if (entry.event) {
+        entry.collectionIds?.forEach((id) => {
+          counts[id] = (counts[id] || 0) + 1;
+        });
+      }
+    });
+    return counts;
+  }, [saved]);
+
+  const handleTagToggle = (tag: string) => {
+    setSelectedTags(activeTags.includes(tag) ? activeTags.filter((entry) => entry !== tag) : [...activeTags, tag]);
+  };
+
+  // Saved events whose status changed since they were saved
+  const statusChanges = useMemo(() => saved.filter(hasStatusChanged), [saved]);
+
+  // Only report IDs that are still saved (the user may have removed them since)
+  const savedIds = useMemo(() => new Set(saved.map((entry) => entry.id)), [saved]);
+  const notFoundIds = notFound.filter((id) => savedIds.has(id));
+  const failedIds = failed.filter((id) => savedIds.has(id));
 
-  // Load saved events
+  // Refresh saved events from the API
   const loadSavedEvents = async () => {
+    const hasSnapshots = saved.some((entry) => entry.event);
+
+    setError(null);
+
+    if (saved.length === 0) {
+      setNotFound([]);
+      setFailed([]);
+      setHasRefreshed(true);
+      return;
+    }
+
+    setRefreshing(true);
+
     try {
-      setLoading(true);
-      const savedIds = getSavedEventIds();
-      
-      if (savedIds.length === 0) {
-        setSavedEvents([]);
-        setLoading(false);
+      // Fetch event details for all saved IDs in batches
+      // IDs that couldn't be loaded are reported back so we can show them
+      const result = await getEventsByIds(saved.map((entry) => entry.id));
+      if (result.failed.length === saved.length && !hasSnapshots) {
+        // Nothing to show at all
+        setError("Failed to load saved events. Please try again.");
         return;
       }
-
-      // Fetch event details for all saved IDs
-      // The API will handle invalid IDs gracefully
-      if (savedIds.length > 0) {
-        const events = await getEventsByIds(savedIds);
-        setSavedEvents(events);
-      } else {
-        setSavedEvents([]);
-      }
+      dispatch(savedEventSnapshotsUpdated(result.events));
+      setNotFound(result.notFound);
+      setFailed(result.failed);
     } catch (err) {
       console.error("Error loading saved events:", err);
-      setError("Failed to load saved events. Please try again.");
+      if (hasSnapshots) {
+        // Keep showing the snapshots, but let the user know they may be stale
+        setFailed(saved.map((entry) => entry.id));
+      } else {
+        setError("Failed to load saved events. Please try again.");
+      }
     } finally {
-      setLoading(false);
+      setHasRefreshed(true);
+      setRefreshing(false);
     }
   };
 
-  // Load events on mount
+  // Refresh once the saved events have been loaded from localStorage,
+  // and again after an import
   useEffect(() => {
-    loadSavedEvents();
-  }, []);
+    if (isRehydrated) {
+      loadSavedEvents();
+    }
+  }, [isRehydrated, refreshCount]);
+
+  // Remove saved IDs that no longer exist in the API
+  const handleRemoveNotFound = () => {
+    dispatch(savedEventsRemoved(notFoundIds));
+    setNotFound([]);
+  };
+
+  // Export every saved event to a single calendar file
+  const handleExportCalendar = () => {
+    downloadFile(buildIcsCalendar(savedEvents), "nearnow-my-events.ics", "text/calendar");
+  };
 
-  // Handle save change (when user unsaves an event from a card)
-  const handleSaveChange = () => {
-    loadSavedEvents();
+  // Label an ID with its event name when we have a snapshot
+  const describeSavedId = (id: string) => {
+    return savedEvents.find((event) => event.id === id)?.name || id;
   };
 
+  // Only block the page if there is nothing to show yet
+  // (e.g. entries migrated from the old ID-only format)
+  const loading = !isRehydrated || (!hasRefreshed && savedEvents.length === 0 && saved.length > 0);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -77,9 +204,8 @@ export default function MyEventsPage() {
           {hasOldEvents && (
             <button
               onClick={() => {
-                clearSavedEvents();
+                dispatch(savedEventsCleared());
                 setError(null);
-                loadSavedEvents();
               }}
               className="flex items-center gap-2 mx-auto px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium transition-colors"
             >
@@ -114,15 +240,171 @@ export default function MyEventsPage() {
             ? `You have ${savedEvents.length} saved event${savedEvents.length !== 1 ? "s" : ""}`
             : "Events you save will appear here"}
         </p>
+        {refreshing && (
+          <div className="mt-3 flex items-center gap-2 text-sm text-red-100">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Refreshing saved events...</span>
+          </div>
+        )}
       </div>
 
-      {/* Saved Events Grid */}
-      {savedEvents.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {savedEvents.map((event) => (
-            <EventCard key={event.id} event={event} onSaveChange={handleSaveChange} />
-          ))}
+      {/* Saved events that couldn't be loaded */}
+      {(notFoundIds.length > 0 || failedIds.length > 0) && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 text-sm text-yellow-800">
+          <div className="flex items-center gap-2 font-semibold mb-2">
+            <AlertTriangle className="h-4 w-4" />
+            Some saved events couldn't be loaded
+          </div>
+
+          {notFoundIds.length > 0 && (
+            <div className="mb-3">
+              <p className="mb-1">
+                {notFoundIds.length} event{notFoundIds.length !== 1 ? "s are" : " is"} no longer available:
+              </p>
+              <ul className="list-disc list-inside text-xs text-yellow-700 mb-2">
+                {notFoundIds.map((id) => (
+                  <li key={id}>{describeSavedId(id)}</li>
+                ))}
+              </ul>
+              <button
+                onClick={handleRemoveNotFound}
+                className="px-3 py-1.5 bg-yellow-600 text-white rounded hover:bg-yellow-700 text-sm font-medium transition-colors"
+              >
+                Remove from Saved Events
+              </button>
+            </div>
+          )}
+
+          {failedIds.length > 0 && (
+            <div>
+              <p className="mb-1">
+                {failedIds.length} event{failedIds.length !== 1 ? "s" : ""} couldn't be refreshed.
+                {savedEvents.length > 0 && " Showing the details from when they were saved."}
+              </p>
+              <button
+                onClick={loadSavedEvents}
+                className="text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Try again
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Saved events whose status changed */}
+      {statusChanges.length > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded-xl p-4 text-sm text-orange-800">
+          <div className="flex items-center gap-2 font-semibold mb-2">
+            <AlertTriangle className="h-4 w-4" />
+            {statusChanges.length} saved event{statusChanges.length !== 1 ? "s have" : " has"} changed since you saved{" "}
+            {statusChanges.length !== 1 ? "them" : "it"}
+          </div>
+          <ul className="list-disc list-inside text-xs text-orange-700 mb-3">
+            {statusChanges.map((entry) => (
+              <li key={entry.id}>
+                {entry.event!.name}: {getEventStatusOption(entry.savedStatus!).name} →{" "}
+                <span className="font-semibold">{getEventStatusOption(getEventStatus(entry.event!)).name}</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => dispatch(savedEventStatusAcknowledged(statusChanges.map((entry) => entry.id)))}
+            className="px-3 py-1.5 bg-orange-600 text-white rounded hover:bg-orange-700 text-sm font-medium transition-colors"
+          >
+            Got it
+          </button>
         </div>
+      )}
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <SavedEventsBackup onImported={() => setRefreshCount((count) => count + 1)} />
+        {savedEvents.length > 0 && (
+          <>
+            <button
+              onClick={handleExportCalendar}
+              className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white py-1.5 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+              title="Download all saved events as an .ics calendar file"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              Export all to calendar
+            </button>
+            <ViewModeToggle value={viewMode} onChange={(mode) => dispatch(viewModeChanged(mode))} />
+          </>
+        )}
+      </div>
+
+      {/* Collections and tag filters */}
+      {savedEvents.length > 0 && (
+        <div className="space-y-3">
+          <CollectionTabs
+            collections={collections}
+            counts={collectionCounts}
+            totalCount={savedEvents.length}
+            activeId={activeCollectionId}
+            onChange={setSelectedCollectionId}
+          />
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Tag className="h-4 w-4 text-gray-400" />
+              {allTags.map((tag) => {
+                const isActive = activeTags.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    onClick={() => handleTagToggle(tag)}
+                    aria-pressed={isActive}
+                    className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                      isActive ? "bg-blue-600 text-white" : "bg-blue-50 text-blue-700 hover:bg-blue-100"
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                );
+              })}
+              {activeTags.length > 0 && (
+                <button onClick={() => setSelectedTags([])} className="text-xs font-medium text-gray-500 hover:text-gray-700">
+                  Clear tags
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Saved Events Grid / Map */}
+      {savedEvents.length > 0 ? (
+        visibleEvents.length > 0 ? (
+          <div className="space-y-4">
+            {viewMode === "map" ? (
+              <EventMap events={visibleEvents} />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {visibleSaved.map((entry) => (
+                  <div key={entry.id}>
+                    {hasStatusChanged(entry) && (
+                      <div className="mb-2 px-3 py-1.5 bg-orange-50 border border-orange-200 rounded-lg text-xs font-medium text-orange-800">
+                        Now {getEventStatusOption(getEventStatus(entry.event)).name.toLowerCase()} (was{" "}
+                        {getEventStatusOption(entry.savedStatus!).name.toLowerCase()} when saved)
+                      </div>
+                    )}
+                    <EventCard event={entry.event} distanceOrigin={userLocation} />
+                    <SavedEventOrganizer saved={entry} collections={collections} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-gray-50 rounded-xl">
+            <p className="text-gray-600">
+              {activeTags.length > 0
+                ? "No saved events here have all of the selected tags."
+                : "This collection is empty. Add events to it from the All tab."}
+            </p>
+          </div>
+        )
       ) : (
         <div className="text-center py-12 bg-gray-50 rounded-xl">
           <Heart className="h-16 w-16 text-gray-300 mx-auto mb-4" />
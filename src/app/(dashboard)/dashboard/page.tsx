@@ -6,47 +6,126 @@
  * - Current location detection
  * - Popular/trending events section
  * - Search and filter functionality
- * - Event results display
+ * - Event results display with infinite scroll
+ * - List/map toggle for popular events and search results
+ * - Filters kept in the URL, so searches can be shared and survive reloads
+ * - The last search is restored when Discover is opened without filters,
+ *   reusing its results while they're still fresh
+ * - Save the current search to re-run it later
+ * - Sort by popularity, date, attendance, relevance or distance from the user
  */
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
 import { Event, EventFilters } from "@/types/event";
-import { searchEvents, getPopularEvents } from "@/services/predicthq";
+import { searchEventsPage, getPopularEvents, isAbortError } from "@/services/eventsApi";
+import { serializeEventFilters, parseEventFilters, normalizeEventFilters } from "@/utils/eventFilterParams";
+import { useAppDispatch, useAppSelector } from "@/redux/hooks";
+import { selectIsRehydrated } from "@/redux/store";
+import {
+  selectSearch,
+  searchCompleted,
+  pageLoaded,
+  resultsCleared,
+} from "@/redux/slices/searchSlice";
+import { selectUserLocation, selectLocationError, locationUpdated, locationFailed } from "@/redux/slices/locationSlice";
+import { selectPreferences, viewModeChanged } from "@/redux/slices/preferencesSlice";
+import { sortEventsByDistance } from "@/utils/eventSort";
+import dynamic from "next/dynamic";
 import EventCard from "@/components/events/EventCard";
 import SearchFilters from "@/components/events/SearchFilters";
+import SaveSearchButton from "@/components/events/SaveSearchButton";
+import ViewModeToggle, { ViewMode } from "@/components/events/ViewModeToggle";
 import { MapPin, TrendingUp, Loader2 } from "lucide-react";
 
-export default function DiscoverEventsPage() {
-  const [events, setEvents] = useState<Event[]>([]);
+// Leaflet needs `window`, so the map is only rendered in the browser
+const EventMap = dynamic(() => import("@/components/events/EventMap"), {
+  ssr: false,
+  loading: () => (
+    <div className="flex items-center justify-center h-[600px] bg-gray-50 rounded-xl">
+      <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+    </div>
+  ),
+});
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Radius used around the user's location when they haven't picked one
+const DEFAULT_RADIUS_MILES = 25;
+
+/**
+ * Serialize filters without the free-text fields, which change on every keystroke
+ */
+function serializeNonTextFilters(filters: EventFilters): string {
+  const params = serializeEventFilters(filters);
+  params.delete("query");
+  params.delete("city");
+  return params.toString();
+}
+
+function DiscoverEventsContent() {
+  const searchParams = useSearchParams();
+  const dispatch = useAppDispatch();
+  const search = useAppSelector(selectSearch);
+  const {
+    events,
+    firstPageEventIds,
+    count: totalCount,
+    filteredAfterFetch,
+    cursor: nextCursor,
+    activeFilters: activeSearchFilters,
+    unsupportedFilters,
+    origin: searchOrigin,
+  } = search;
+  const userLocation = useAppSelector(selectUserLocation);
+  const locationError = useAppSelector(selectLocationError);
+  const { viewMode } = useAppSelector(selectPreferences);
+  const isRehydrated = useAppSelector(selectIsRehydrated);
+  // Persisted state that was already loaded (e.g. coming back from an event) isn't a fresh visit
+  const [rehydratedOnMount] = useState(isRehydrated);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [popularEvents, setPopularEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchLoading, setSearchLoading] = useState(false);
-  const [filters, setFilters] = useState<EventFilters>({});
-  const [userLocation, setUserLocation] = useState<{ lat: number; lon: number } | null>(null);
-  const [locationError, setLocationError] = useState<string | null>(null);
-  const [showPopular, setShowPopular] = useState(true);
+  // Filters restored from the URL on first render
+  const [filters, setFilters] = useState<EventFilters>(() => parseEventFilters(searchParams));
+  const [filtersKey, setFiltersKey] = useState(0);
+  const [loading, setLoading] = useState(Object.keys(filters).length === 0);
+  const [searchLoading, setSearchLoading] = useState(Object.keys(filters).length > 0);
+  const [showPopular, setShowPopular] = useState(Object.keys(filters).length === 0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const loadMoreControllerRef = useRef<AbortController | null>(null);
+  const skipSearchRef = useRef(false);
+
+  // "Nearest" isn't a provider sort: order the loaded results by distance from the user
+  const sortedEvents = useMemo(
+    () =>
+      activeSearchFilters.sort === "nearest" && userLocation ? sortEventsByDistance(events, userLocation) : events,
+    [events, activeSearchFilters.sort, userLocation]
+  );
 
   // Get user's current location on mount
   useEffect(() => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setUserLocation({
-            lat: position.coords.latitude,
-            lon: position.coords.longitude,
-          });
+          dispatch(
+            locationUpdated({
+              lat: position.coords.latitude,
+              lon: position.coords.longitude,
+            })
+          );
         },
         (error) => {
           // Location error is expected if user denies permission or browser doesn't support it
           // This is not a critical error - user can still search by city
           console.log("Location not available:", error.message || "Permission denied or not supported");
-          setLocationError("Unable to get your location. Please enter a city to search.");
+          dispatch(locationFailed("Unable to get your location. Please enter a city to search."));
         }
       );
     } else {
-      setLocationError("Geolocation is not supported by your browser.");
+      dispatch(locationFailed("Geolocation is not supported by your browser."));
     }
   }, []);
 
@@ -79,12 +158,63 @@ export default function DiscoverEventsPage() {
     }
   }, [userLocation, filters.city, showPopular]);
 
+  // Once persisted state has loaded, restore the last search or reuse its results
+  useEffect(() => {
+    if (!isRehydrated) {
+      return;
+    }
+
+    const hasStoredResults = search.events.length > 0;
+    const urlHasFilters = Object.keys(filters).length > 0;
+
+    if (!urlHasFilters && !rehydratedOnMount && Object.keys(search.filters).length > 0) {
+      // Opened without filters after a reload: pick up where the user left off
+      setFilters(search.filters);
+      setFiltersKey((key) => key + 1);
+      setShowPopular(false);
+      window.history.replaceState(
+        null,
+        "",
+        `${window.location.pathname}?${serializeEventFilters(search.filters).toString()}`
+      );
+      skipSearchRef.current = hasStoredResults;
+    } else if (
+      urlHasFilters &&
+      hasStoredResults &&
+      serializeEventFilters(search.filters).toString() === serializeEventFilters(filters).toString()
+    ) {
+      // Results still in the store for these filters are reused
+      skipSearchRef.current = true;
+    }
+  }, [isRehydrated]);
+
   // Search events when filters change
+  // Typing is debounced, and each new search cancels the previous one so a
+  // slow response for an old query can never replace newer results
   useEffect(() => {
+    // Wait for persisted state, which may already hold these results
+    if (!isRehydrated) {
+      return;
+    }
+
+    // Only search if filters are applied
+    if (Object.keys(filters).length === 0) {
+      setSearchLoading(false);
+      return;
+    }
+
+    // Results restored from the store are already up to date
+    if (skipSearchRef.current) {
+      skipSearchRef.current = false;
+      setSearchLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+
     const searchEventsWithFilters = async () => {
-      if (Object.keys(filters).length === 0 && !showPopular) {
-        return; // Don't search if no filters and showing popular
-      }
+      // Results for the previous filters are about to be replaced
+      loadMoreControllerRef.current?.abort();
 
       try {
         setSearchLoading(true);
@@ -95,35 +225,100 @@ export default function DiscoverEventsPage() {
         };
 
         // Add location to filters if available
-        if (userLocation && !filters.city) {
+        // (unless the filters already have coordinates, e.g. from a saved search)
+        if (userLocation && !filters.city && filters.latitude === undefined) {
           searchFilters.latitude = userLocation.lat;
           searchFilters.longitude = userLocation.lon;
-          searchFilters.radius = 25; // 25 mile radius
+          searchFilters.radius = filters.radius ?? DEFAULT_RADIUS_MILES;
         }
 
-        const results = await searchEvents(searchFilters);
-        setEvents(results);
+        const page = await searchEventsPage(searchFilters, undefined, controller.signal);
+        dispatch(searchCompleted({ filters, activeFilters: searchFilters, page }));
       } catch (error) {
+        if (isAbortError(error)) {
+          return; // Superseded by a newer search
+        }
         console.error("Error searching events:", error);
-      } finally {
-        setSearchLoading(false);
       }
+      setSearchLoading(false);
     };
 
-    // Only search if filters are applied
-    if (Object.keys(filters).length > 0) {
-      searchEventsWithFilters();
+    const timer = setTimeout(searchEventsWithFilters, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [filters, isRehydrated, userLocation?.lat, userLocation?.lon]);
+
+  // Load the next page of search results
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) {
+      return;
     }
-  }, [filters, userLocation]);
 
-  // Handle filter changes
-  const handleFiltersChange = (newFilters: EventFilters) => {
+    const controller = new AbortController();
+    loadMoreControllerRef.current = controller;
+
+    try {
+      setLoadingMore(true);
+      const page = await searchEventsPage(activeSearchFilters, nextCursor, controller.signal);
+      dispatch(pageLoaded(page));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error loading more events:", error);
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, activeSearchFilters]);
+
+  // Load more results when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore, viewMode]);
+
+  // Button for loading results on demand, where there's no scroll position to trigger it
+  const loadMoreButton = (label: string) => (
+    <button
+      onClick={loadMore}
+      disabled={loadingMore}
+      className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white py-2 px-4 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-60"
+    >
+      {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+      {label}
+    </button>
+  );
+
+  // Count of results, which is only the number of matches when the provider applied every filter
+  const resultsHeading =
+    events.length === 0
+      ? nextCursor ? "No Matches Yet" : "No Events Found"
+      : filteredAfterFetch ? "Matching Events" : `Found ${totalCount.toLocaleString()} Events`;
+
+  // Apply filters, resetting to popular events when they're all cleared
+  const applyFilters = (newFilters: EventFilters) => {
     setFilters(newFilters);
     
     // If filters are cleared (empty), reset to show popular events seamlessly
     if (Object.keys(newFilters).length === 0) {
       setShowPopular(true);
-      setEvents([]);
+      dispatch(resultsCleared());
       // Reload popular events without showing loading state (seamless reset)
       const reloadPopular = async () => {
         try {
@@ -144,6 +339,45 @@ export default function DiscoverEventsPage() {
     }
   };
 
+  const handleViewModeChange = (mode: ViewMode) => {
+    dispatch(viewModeChanged(mode));
+  };
+
+  // Handle filter changes from the search form
+  const handleFiltersChange = (newFilters: EventFilters) => {
+    const normalized = normalizeEventFilters(newFilters);
+    applyFilters(normalized);
+
+    const search = serializeEventFilters(normalized).toString();
+    const url = search ? `${window.location.pathname}?${search}` : window.location.pathname;
+    if (url === `${window.location.pathname}${window.location.search}`) {
+      return;
+    }
+
+    // Typing in the search or city box replaces the history entry instead of adding one per keystroke
+    if (serializeNonTextFilters(normalized) === serializeNonTextFilters(filters)) {
+      window.history.replaceState(null, "", url);
+    } else {
+      window.history.pushState(null, "", url);
+    }
+  };
+
+  // Latest applyFilters for the popstate listener, which is only added once
+  const applyFiltersRef = useRef(applyFilters);
+  applyFiltersRef.current = applyFilters;
+
+  // Restore filters when navigating back and forward through history
+  useEffect(() => {
+    const handlePopState = () => {
+      applyFiltersRef.current(parseEventFilters(new URLSearchParams(window.location.search)));
+      // Remount the search form so it shows the restored filters
+      setFiltersKey((key) => key + 1);
+    };
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
   return (
     <div className="space-y-6">
       {/* Page Header */}
@@ -166,7 +400,12 @@ export default function DiscoverEventsPage() {
       </div>
 
       {/* Search and Filters */}
-      <SearchFilters onFiltersChange={handleFiltersChange} initialFilters={filters} />
+      <SearchFilters
+        key={filtersKey}
+        onFiltersChange={handleFiltersChange}
+        initialFilters={filters}
+        canSortByDistance={!!userLocation}
+      />
 
       {/* Loading State */}
       {(loading || searchLoading) && (
@@ -179,29 +418,82 @@ export default function DiscoverEventsPage() {
       {/* Popular Events Section */}
       {showPopular && !loading && popularEvents.length > 0 && (
         <div>
-          <div className="flex items-center gap-2 mb-4">
-            <TrendingUp className="h-5 w-5 text-blue-600" />
-            <h2 className="text-2xl font-bold text-gray-900">Popular Events</h2>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {popularEvents.map((event) => (
-              <EventCard key={event.id} event={event} />
-            ))}
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <div className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5 text-blue-600" />
+              <h2 className="text-2xl font-bold text-gray-900">Popular Events</h2>
+            </div>
+            <ViewModeToggle value={viewMode} onChange={handleViewModeChange} />
           </div>
+          {viewMode === "map" ? (
+            <EventMap events={popularEvents} />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {popularEvents.map((event) => (
+                <EventCard key={event.id} event={event} distanceOrigin={userLocation} />
+              ))}
+            </div>
+          )}
         </div>
       )}
 
       {/* Search Results */}
       {!showPopular && !searchLoading && (
         <div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">
-            {events.length > 0 ? `Found ${events.length} Events` : "No Events Found"}
-          </h2>
-          {events.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {events.map((event) => (
-                <EventCard key={event.id} event={event} />
-              ))}
+          {unsupportedFilters.includes("price") && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              Ticket prices aren't available for these events, so the price filter couldn't be applied.
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <h2 className="text-2xl font-bold text-gray-900">{resultsHeading}</h2>
+            {events.length > 0 && (
+              <div className="flex flex-wrap items-center justify-end gap-3">
+                <SaveSearchButton filters={activeSearchFilters} eventIds={firstPageEventIds} />
+                <ViewModeToggle value={viewMode} onChange={handleViewModeChange} />
+              </div>
+            )}
+          </div>
+          {events.length > 0 && (
+            <p className="text-sm text-gray-500 mb-4">
+              {filteredAfterFetch
+                ? `Showing ${events.length.toLocaleString()} matching events${nextCursor ? " so far" : ""}`
+                : `Showing ${events.length.toLocaleString()} of ${totalCount.toLocaleString()} events`}
+            </p>
+          )}
+          {events.length > 0 && viewMode === "map" ? (
+            <>
+              <EventMap events={sortedEvents} />
+
+              {/* The map has no scroll position, so load more on demand */}
+              {nextCursor && <div className="flex justify-center py-4">{loadMoreButton("Load more events")}</div>}
+            </>
+          ) : events.length > 0 ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {sortedEvents.map((event) => (
+                  <EventCard key={event.id} event={event} distanceOrigin={searchOrigin || userLocation} />
+                ))}
+              </div>
+
+              {/* Infinite scroll sentinel */}
+              {nextCursor && (
+                <div ref={loadMoreRef} className="flex items-center justify-center py-8">
+                  {loadingMore && (
+                    <>
+                      <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+                      <span className="ml-3 text-gray-600">Loading more events...</span>
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          ) : nextCursor ? (
+            // Filtering after fetching left nothing in the pages checked so far, but there are more
+            <div className="flex flex-col items-center py-12 bg-gray-50 rounded-xl">
+              <p className="text-gray-600 mb-2">None of the events checked so far match your filters.</p>
+              <p className="text-sm text-gray-500 mb-4">There are more events to check.</p>
+              {loadMoreButton("Keep looking")}
             </div>
           ) : (
             <div className="text-center py-12 bg-gray-50 rounded-xl">
@@ -222,3 +514,18 @@ export default function DiscoverEventsPage() {
     </div>
   );
 }
+
+export default function DiscoverEventsPage() {
+  // useSearchParams needs a Suspense boundary when the page is prerendered
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      }
+    >
+      <DiscoverEventsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Saved Searches Page
+ *
+ * Lists the searches the user has saved from Discover. Each search is
+ * re-run when the page opens and shows how many of its events are new
+ * since the user last viewed its results.
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { EventFilters, SavedSearch } from "@/types/event";
+import { searchEventsPage } from "@/services/eventsApi";
+import {
+  getSavedSearches,
+  markSavedSearchSeen,
+  removeSavedSearch,
+  countNewMatches,
+} from "@/services/savedSearches";
+import { serializeEventFilters } from "@/utils/eventFilterParams";
+import { EVENT_CATEGORIES, EVENT_LABELS, splitFilterValue } from "@/utils/eventCategories";
+import { EVENT_SORT_OPTIONS } from "@/utils/eventSort";
+import { EVENT_STATUSES } from "@/utils/eventStatus";
+import { formatDate } from "@/utils/dateFormat";
+import { DistanceUnit, formatDistance } from "@/utils/distance";
+import { useAppSelector } from "@/redux/hooks";
+import { selectPreferences } from "@/redux/slices/preferencesSlice";
+import { Bookmark, Loader2, Trash2, Search, AlertTriangle } from "lucide-react";
+
+/**
+ * Latest results for a saved search
+ */
+interface SearchResults {
+  eventIds: string[];
+  count: number;
+  countIsMinimum?: boolean; // more events may match than count
+  error?: boolean;
+}
+
+/**
+ * Describe a search's filters in a few short phrases
+ */
+function describeFilters(filters: EventFilters, distanceUnit: DistanceUnit): string[] {
+  const parts: string[] = [];
+
+  if (filters.query) parts.push(`"${filters.query}"`);
+  if (filters.city) parts.push(filters.city);
+  if (filters.latitude !== undefined && filters.longitude !== undefined && !filters.city) {
+    parts.push("Near a saved location");
+  }
+  if (filters.radius) parts.push(`Within ${formatDistance(filters.radius, distanceUnit)}`);
+  if (filters.startDate) {
+    parts.push(
+      filters.endDate
+        ? `${formatDate(filters.startDate)} – ${formatDate(filters.endDate)}`
+        : `From ${formatDate(filters.startDate)}`
+    );
+  }
+  splitFilterValue(filters.category).forEach((value) => {
+    parts.push(EVENT_CATEGORIES.find((option) => option.value === value)?.name || value);
+  });
+  splitFilterValue(filters.label).forEach((value) => {
+    parts.push(`#${EVENT_LABELS.find((option) => option.value === value)?.name || value}`);
+  });
+  if (filters.price) {
+    const { min, max } = filters.price;
+    parts.push(max === 0 ? "Free" : max !== undefined ? `$${min ?? 0} - $${max}` : `$${min ?? 0}+`);
+  }
+  if (filters.status) {
+    const names = filters.status
+      .split(",")
+      .map((value) => EVENT_STATUSES.find((option) => option.value === value)?.name || value);
+    parts.push(`Status: ${names.join(", ")}`);
+  }
+  if (filters.sort) {
+    parts.push(`Sorted: ${EVENT_SORT_OPTIONS.find((option) => option.value === filters.sort)?.name || filters.sort}`);
+  }
+
+  return parts;
+}
+
+export default function SavedSearchesPage() {
+  const router = useRouter();
+  const { distanceUnit } = useAppSelector(selectPreferences);
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [results, setResults] = useState<Record<string, SearchResults>>({});
+  const [loading, setLoading] = useState(true);
+
+  // Load saved searches and re-run each one
+  useEffect(() => {
+    const saved = getSavedSearches();
+    setSearches(saved);
+    setLoading(false);
+
+    let cancelled = false;
+    const runSearches = async () => {
+      // One at a time, so we don't flood the events API (and its geocoder)
+      for (const search of saved) {
+        let searchResults: SearchResults;
+        try {
+          const page = await searchEventsPage(search.filters);
+          const eventIds = page.events.map((event) => event.id);
+          // Filtering after fetching leaves count as the total before filtering,
+          // so only the matches actually returned can be counted
+          const count = page.filteredAfterFetch ? eventIds.length : page.count;
+          searchResults = { eventIds, count, countIsMinimum: page.filteredAfterFetch && !!page.cursor };
+        } catch (error) {
+          console.error(`Error re-running saved search "${search.name}":`, error);
+          searchResults = { eventIds: [], count: 0, error: true };
+        }
+        if (cancelled) {
+          return;
+        }
+        setResults((current) => ({ ...current, [search.id]: searchResults }));
+      }
+    };
+    runSearches();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Open a search's results in Discover, marking them as seen
+  const handleOpen = (search: SavedSearch) => {
+    const searchResults = results[search.id];
+    if (searchResults && !searchResults.error) {
+      markSavedSearchSeen(search.id, searchResults.eventIds);
+    }
+    router.push(`/dashboard?${serializeEventFilters(search.filters).toString()}`);
+  };
+
+  const handleRemove = (searchId: string) => {
+    removeSavedSearch(searchId);
+    setSearches(getSavedSearches());
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <span className="ml-3 text-gray-600">Loading your saved searches...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl p-6 text-white">
+        <div className="flex items-center gap-3 mb-2">
+          <Bookmark className="h-8 w-8" />
+          <h1 className="text-3xl font-bold">Saved Searches</h1>
+        </div>
+        <p className="text-blue-100">
+          {searches.length > 0
+            ? `You have ${searches.length} saved search${searches.length !== 1 ? "es" : ""}`
+            : "Searches you save will appear here"}
+        </p>
+      </div>
+
+      {searches.length > 0 ? (
+        <div className="space-y-3">
+          {searches.map((search) => {
+            const searchResults = results[search.id];
+            const newCount = searchResults && !searchResults.error ? countNewMatches(search, searchResults.eventIds) : 0;
+
+            return (
+              <div
+                key={search.id}
+                className="flex flex-col gap-3 rounded-xl border border-gray-100 bg-white p-4 shadow-sm sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h2 className="text-lg font-semibold text-gray-900 truncate">{search.name}</h2>
+                    {newCount > 0 && (
+                      <span className="rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-semibold text-green-700">
+                        {newCount} new event{newCount !== 1 ? "s" : ""}
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-1 text-sm text-gray-600">
+                    {describeFilters(search.filters, distanceUnit).join(" · ") || "All events"}
+                  </p>
+                  <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                    {!searchResults ? (
+                      <>
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Checking for new events...
+                      </>
+                    ) : searchResults.error ? (
+                      <>
+                        <AlertTriangle className="h-3 w-3 text-yellow-600" />
+                        Couldn't check for new events
+                      </>
+                    ) : (
+                      `${searchResults.count.toLocaleString()}${searchResults.countIsMinimum ? "+" : ""} matching event${searchResults.count !== 1 || searchResults.countIsMinimum ? "s" : ""} · last viewed ${formatDate(search.lastViewedAt)}`
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex flex-shrink-0 items-center gap-2">
+                  <button
+                    onClick={() => handleOpen(search)}
+                    className="flex items-center gap-2 rounded-lg bg-blue-600 py-2 px-4 text-sm font-medium text-white hover:bg-blue-700 transition-colors"
+                  >
+                    <Search className="h-4 w-4" />
+                    View results
+                  </button>
+                  <button
+                    onClick={() => handleRemove(search.id)}
+                    aria-label={`Delete saved search ${search.name}`}
+                    className="rounded-lg border border-gray-300 bg-white p-2 text-gray-600 hover:bg-gray-50 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-gray-50 rounded-xl">
+          <Bookmark className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">No Saved Searches Yet</h2>
+          <p className="text-gray-600 mb-4">
+            Run a search on Discover and use "Save search" to keep an eye on it.
+          </p>
+          <a
+            href="/dashboard"
+            className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-medium"
+          >
+            Discover Events →
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
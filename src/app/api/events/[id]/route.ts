@@ -0,0 +1,28 @@
+/**
+ * Event Detail API Route
+ * 
+ * Server-side proxy for fetching a single event by ID.
+ * 
+ * GET /api/events/:id
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getEventProvider, EventProviderError } from "@/services/providers";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const event = await getEventProvider().getById(id);
+    return NextResponse.json(event);
+  } catch (error: any) {
+    const status = error instanceof EventProviderError ? error.status : 500;
+    return NextResponse.json(
+      { error: error?.message || "Failed to load event details." },
+      { status }
+    );
+  }
+}
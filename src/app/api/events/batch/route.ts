@@ -0,0 +1,56 @@
+/**
+ * Event Batch API Route
+ * 
+ * Server-side proxy for looking up several events at once (used by My Events).
+ * Reports which IDs were not found or failed to load instead of dropping them.
+ * 
+ * POST /api/events/batch  { "ids": ["abc", "def"] }
+ * 
+ * Each request may ask for up to MAX_BATCH_IDS IDs, so one request can't fan
+ * out into an unbounded number of provider lookups.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getEventProvider, EventProviderError } from "@/services/providers";
+import { isWellFormedEventId, MAX_BATCH_IDS, MAX_EVENT_ID_LENGTH } from "@/utils/eventIdValidator";
+
+export async function POST(request: NextRequest) {
+  let ids: unknown;
+  try {
+    ({ ids } = await request.json());
+  } catch (e) {
+    ids = undefined;
+  }
+
+  if (!Array.isArray(ids)) {
+    return NextResponse.json(
+      { error: 'Request body must be JSON of the form { "ids": string[] }.' },
+      { status: 400 }
+    );
+  }
+
+  if (ids.length > MAX_BATCH_IDS) {
+    return NextResponse.json(
+      { error: `Too many IDs: at most ${MAX_BATCH_IDS} can be looked up per request.` },
+      { status: 400 }
+    );
+  }
+
+  if (!ids.every(isWellFormedEventId)) {
+    return NextResponse.json(
+      { error: `Each ID must be a non-empty string of at most ${MAX_EVENT_ID_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await getEventProvider().getByIds(ids);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    const status = error instanceof EventProviderError ? error.status : 500;
+    return NextResponse.json(
+      { error: error?.message || "Failed to load events." },
+      { status }
+    );
+  }
+}
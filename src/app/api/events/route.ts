@@ -0,0 +1,30 @@
+/**
+ * Events API Route
+ * 
+ * Server-side proxy for event search.
+ * Accepts EventFilters as query parameters and returns a page of our Event type,
+ * so provider API tokens never leave the server.
+ * 
+ * GET /api/events?query=jazz&city=Lagos&startDate=...
+ * GET /api/events?query=jazz&cursor=<cursor from the previous page>
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { searchEvents, EventProviderError } from "@/services/providers";
+import { parseEventFilters } from "@/utils/eventFilterParams";
+
+export async function GET(request: NextRequest) {
+  const filters = parseEventFilters(request.nextUrl.searchParams);
+  const cursor = request.nextUrl.searchParams.get("cursor") || undefined;
+
+  try {
+    const page = await searchEvents(filters, cursor);
+    return NextResponse.json(page);
+  } catch (error: any) {
+    const status = error instanceof EventProviderError ? error.status : 500;
+    return NextResponse.json(
+      { error: error?.message || "Failed to search events." },
+      { status }
+    );
+  }
+}
@@ -1,22 +1,32 @@
 /**
  * App Component
- * 
- * Root component that provides context and global UI elements.
- * Simplified for NearNow - no Redux needed for current features.
+ *
+ * Root component that provides the Redux store, context and global UI elements.
+ * Persisted state is loaded in the background rather than behind a PersistGate,
+ * so pages still render on the server; use selectIsRehydrated where it matters.
+ * Saved events and preferences changed in other tabs are synced into the store while mounted.
  */
 
 "use client";
 
-import React from "react";
+import React, { useEffect } from "react";
+import { Provider } from "react-redux";
 import { ToastContainer } from "react-toastify";
 import AppProvider from "./context/context";
+import { store } from "@/redux/store";
+import { startCrossTabSync } from "@/redux/crossTabSync";
 
 const App = ({ children }: { children: React.ReactNode }) => {
+	// Pick up events saved or removed, and preferences changed, in other tabs
+	useEffect(() => startCrossTabSync(store), []);
+
 	return (
-		<AppProvider>
-			{children}
-			<ToastContainer />
-		</AppProvider>
+		<Provider store={store}>
+			<AppProvider>
+				{children}
+				<ToastContainer />
+			</AppProvider>
+		</Provider>
 	);
 };
 
@@ -6,6 +6,7 @@ import Link from "next/link";
 import { 
   Home, 
   Heart,
+  Bookmark,
   MapPin
 } from "lucide-react";
 
@@ -20,6 +21,7 @@ export interface SidebarLink {
 export const sidebarLinks: SidebarLink[] = [
   { href: "/dashboard", label: "Discover Events", icon: Home },
   { href: "/dashboard/my-events", label: "My Events", icon: Heart },
+  { href: "/dashboard/saved-searches", label: "Saved Searches", icon: Bookmark },
 ];
 
 export default function Sidebar() {
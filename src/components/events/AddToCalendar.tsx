@@ -0,0 +1,97 @@
+/**
+ * Add to Calendar Component
+ *
+ * Dropdown with the ways to put an event in a calendar:
+ * - Download an .ics file (Apple Calendar, Outlook desktop, ...)
+ * - Google Calendar
+ * - Outlook on the web
+ */
+
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Event } from "@/types/event";
+import { CalendarPlus, ChevronDown, Download, ExternalLink } from "lucide-react";
+import { buildIcsCalendar, getGoogleCalendarUrl, getOutlookCalendarUrl } from "@/utils/calendar";
+import { downloadFile, toFileName } from "@/utils/download";
+
+interface AddToCalendarProps {
+  event: Event;
+}
+
+export default function AddToCalendar({ event }: AddToCalendarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleDownload = () => {
+    downloadFile(buildIcsCalendar([event]), `${toFileName(event.name)}.ics`, "text/calendar");
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all border-2 bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+      >
+        <CalendarPlus className="h-5 w-5" />
+        <span>Add to Calendar</span>
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-20 mt-2 w-56 rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          <button
+            role="menuitem"
+            onClick={handleDownload}
+            className="flex w-full items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4" />
+            Download .ics file
+          </button>
+          <a
+            role="menuitem"
+            href={getGoogleCalendarUrl(event)}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <ExternalLink className="h-4 w-4" />
+            Google Calendar
+          </a>
+          <a
+            role="menuitem"
+            href={getOutlookCalendarUrl(event)}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <ExternalLink className="h-4 w-4" />
+            Outlook.com
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Collection Tabs Component
+ *
+ * Tabs for switching My Events between all saved events and a single
+ * collection, with controls to create, rename and delete collections.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { EventCollection } from "@/types/event";
+import { useAppDispatch } from "@/redux/hooks";
+import { collectionCreated, collectionDeleted, collectionRenamed } from "@/redux/slices/savedEventsSlice";
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface CollectionTabsProps {
+  collections: EventCollection[];
+  counts: Record<string, number>; // saved events per collection ID
+  totalCount: number;
+  activeId: string | null; // null for all saved events
+  onChange: (collectionId: string | null) => void;
+}
+
+export default function CollectionTabs({ collections, counts, totalCount, activeId, onChange }: CollectionTabsProps) {
+  const dispatch = useAppDispatch();
+  // "new" while naming a new collection, a collection ID while renaming one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState("");
+
+  const active = collections.find((collection) => collection.id === activeId);
+
+  const startEditing = (target: string, initialName: string) => {
+    setName(initialName);
+    setEditing(target);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    if (editing === "new") {
+      const action = collectionCreated(name);
+      dispatch(action);
+      onChange(action.payload.id);
+    } else if (editing) {
+      dispatch(collectionRenamed({ collectionId: editing, name }));
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!active || !window.confirm(`Delete the "${active.name}" collection? Its events stay saved.`)) {
+      return;
+    }
+    dispatch(collectionDeleted(active.id));
+    onChange(null);
+  };
+
+  const tabClass = (isActive: boolean) =>
+    `flex items-center gap-2 whitespace-nowrap rounded-lg px-3 py-1.5 text-sm font-medium transition-colors ${
+      isActive ? "bg-blue-600 text-white" : "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+    }`;
+
+  const countClass = (isActive: boolean) =>
+    `rounded-full px-1.5 text-xs ${isActive ? "bg-white/20" : "bg-gray-100 text-gray-600"}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label="Collections">
+      <button role="tab" aria-selected={activeId === null} onClick={() => onChange(null)} className={tabClass(activeId === null)}>
+        All
+        <span className={countClass(activeId === null)}>{totalCount}</span>
+      </button>
+
+      {collections.map((collection) => {
+        const isActive = collection.id === activeId;
+        return (
+          <button
+            key={collection.id}
+            role="tab"
+            aria-selected={isActive}
+            onClick={() => onChange(collection.id)}
+            className={tabClass(isActive)}
+          >
+            {collection.name}
+            <span className={countClass(isActive)}>{counts[collection.id] || 0}</span>
+          </button>
+        );
+      })}
+
+      {editing ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <input
+            type="text"
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Collection name"
+            aria-label="Collection name"
+            maxLength={60}
+            className="w-44 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-transparent focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="rounded-lg bg-blue-600 p-2 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            aria-label="Save collection"
+          >
+            <Check className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(null)}
+            className="rounded-lg border border-gray-300 bg-white p-2 text-gray-600 hover:bg-gray-50 transition-colors"
+            aria-label="Cancel"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </form>
+      ) : (
+        <>
+          <button
+            onClick={() => startEditing("new", "")}
+            className="flex items-center gap-1 rounded-lg border border-dashed border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            New collection
+          </button>
+          {active && (
+            <>
+              <button
+                onClick={() => startEditing(active.id, active.name)}
+                className="rounded-lg p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors"
+                aria-label={`Rename ${active.name}`}
+                title="Rename collection"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                onClick={handleDelete}
+                className="rounded-lg p-2 text-gray-500 hover:bg-red-50 hover:text-red-600 transition-colors"
+                aria-label={`Delete ${active.name}`}
+                title="Delete collection"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
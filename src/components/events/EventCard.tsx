@@ -3,34 +3,44 @@
  * 
  * Displays a single event in a card format with:
  * - Event image/logo
- * - Event name
+ * - Event name, with a status badge unless the event is active
  * - Date and time
- * - Venue/location
- * - Price (if available)
+ * - Venue/location, and how far away it is when an origin is given
+ *   (online events say they can be joined online instead)
+ * - Price (if available) and expected attendance (if predicted)
  * - Save/bookmark button
  */
 
 "use client";
 
 import { Event } from "@/types/event";
-import { Heart, MapPin, Calendar, DollarSign, ExternalLink } from "lucide-react";
-import { useState, useEffect } from "react";
-import { isEventSaved, saveEventId, removeEventId } from "@/services/localStorage";
+import { Heart, MapPin, Calendar, DollarSign, ExternalLink, Navigation, Users, Globe } from "lucide-react";
+import { useAppDispatch, useAppSelector } from "@/redux/hooks";
+import { eventSaved, savedEventRemoved, selectIsEventSaved } from "@/redux/slices/savedEventsSlice";
+import { selectPreferences } from "@/redux/slices/preferencesSlice";
+import type { Coordinates } from "@/redux/slices/locationSlice";
+import { cacheEvent } from "@/services/eventCache";
+import { formatPrice } from "@/utils/price";
+import { formatEventStart } from "@/utils/dateFormat";
+import { formatDistance } from "@/utils/distance";
+import { getEventDistanceMiles } from "@/utils/eventSort";
+import { formatAttendance, formatExpectedAttendance } from "@/utils/insights";
+import { getEventStatus, hasStatusBadge } from "@/utils/eventStatus";
+import EventStatusBadge from "./EventStatusBadge";
 import { toast } from "react-toastify";
 import Link from "next/link";
 
 interface EventCardProps {
   event: Event;
   onSaveChange?: () => void; // Callback when save status changes
+  distanceOrigin?: Coordinates | null; // Point to show the distance from (user's location, searched city, ...)
 }
 
-export default function EventCard({ event, onSaveChange }: EventCardProps) {
-  const [isSaved, setIsSaved] = useState(false);
-
-  // Check if event is saved on mount
-  useEffect(() => {
-    setIsSaved(isEventSaved(event.id));
-  }, [event.id]);
+export default function EventCard({ event, onSaveChange, distanceOrigin }: EventCardProps) {
+  const dispatch = useAppDispatch();
+  const isSaved = useAppSelector((state) => selectIsEventSaved(state, event.id));
+  const { distanceUnit } = useAppSelector(selectPreferences);
+  const distance = distanceOrigin ? getEventDistanceMiles(event, distanceOrigin) : undefined;
 
   // Handle save/unsave
   const handleSaveToggle = (e: React.MouseEvent) => {
@@ -38,15 +48,13 @@ export default function EventCard({ event, onSaveChange }: EventCardProps) {
     e.stopPropagation();
     
     if (isSaved) {
-      removeEventId(event.id);
-      setIsSaved(false);
+      dispatch(savedEventRemoved(event.id));
       toast.success("Event removed from saved events", {
         position: "top-right",
         autoClose: 2000,
       });
     } else {
-      saveEventId(event.id);
-      setIsSaved(true);
+      dispatch(eventSaved(event));
       toast.success("Event saved!", {
         position: "top-right",
         autoClose: 2000,
@@ -59,37 +67,10 @@ export default function EventCard({ event, onSaveChange }: EventCardProps) {
     }
   };
 
-  // Format date for display
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString("en-US", {
-      weekday: "short",
-      month: "short",
-      day: "numeric",
-      hour: "numeric",
-      minute: "2-digit",
-    });
-  };
-
-  // Format price display
-  const formatPrice = () => {
-    if (!event.price) {
-      return "Free";
-    }
-    if (event.price.min === 0) {
-      return "Free";
-    }
-    if (event.price.min && event.price.max && event.price.min !== event.price.max) {
-      return `$${event.price.min} - $${event.price.max}`;
-    }
-    return `$${event.price.min}`;
-  };
-
-  // Store event data in sessionStorage before navigating
+  // Store event data in the event cache before navigating
   // This allows the detail page to use the data without an API call
   const handleViewDetails = (e: React.MouseEvent) => {
-    // Store the full event data in sessionStorage
-    sessionStorage.setItem(`event_${event.id}`, JSON.stringify(event));
+    cacheEvent(event);
   };
 
   return (
@@ -100,12 +81,30 @@ export default function EventCard({ event, onSaveChange }: EventCardProps) {
       <div className="group relative bg-white rounded-xl shadow-sm hover:shadow-lg transition-all duration-300 overflow-hidden border border-gray-100 cursor-pointer">
         {/* Event Header with Category Badge */}
         <div className="relative bg-gradient-to-r from-blue-500 to-purple-600 p-4">
+          {/* Online Event Badge */}
+          {event.isOnline && (
+            <div className="inline-block mr-2 px-3 py-1 bg-green-500 text-white text-xs font-semibold rounded-full mb-2">
+              Online
+            </div>
+          )}
+
           {/* Category Badge */}
           {event.category && (
             <div className="inline-block px-3 py-1 bg-white/20 backdrop-blur-sm text-white text-xs font-semibold rounded-full mb-2">
               {event.category}
             </div>
           )}
+
+          {/* Expected Attendance Chip */}
+          {event.insights?.attendance !== undefined && (
+            <div
+              className="inline-flex items-center gap-1 ml-2 px-3 py-1 bg-white/20 backdrop-blur-sm text-white text-xs font-semibold rounded-full mb-2"
+              title={`Predicted attendance: ${formatAttendance(event.insights.attendance)}`}
+            >
+              <Users className="h-3 w-3" />
+              {formatExpectedAttendance(event.insights.attendance)}
+            </div>
+          )}
           
           {/* Save Button - Top Right */}
           <button
@@ -120,16 +119,17 @@ export default function EventCard({ event, onSaveChange }: EventCardProps) {
             <Heart className={`h-5 w-5 ${isSaved ? "fill-current" : ""}`} />
           </button>
 
-          {/* Online Event Badge */}
-          {event.isOnline && (
-            <div className="absolute top-3 left-3 px-2 py-1 bg-green-500 text-white text-xs font-medium rounded-full">
-              Online
-            </div>
-          )}
         </div>
 
         {/* Event Details */}
         <div className="p-5">
+          {/* Status (cancelled, postponed, ...) */}
+          {hasStatusBadge(event) && (
+            <div className="mb-2">
+              <EventStatusBadge status={getEventStatus(event)} />
+            </div>
+          )}
+
           {/* Event Name */}
           <h3 className="font-bold text-xl text-gray-900 mb-3 line-clamp-2 group-hover:text-blue-600 transition-colors">
             {event.name}
@@ -138,11 +138,19 @@ export default function EventCard({ event, onSaveChange }: EventCardProps) {
           {/* Date & Time */}
           <div className="flex items-center text-sm text-gray-600 mb-3">
             <Calendar className="h-4 w-4 mr-2 text-blue-500 flex-shrink-0" />
-            <span>{formatDate(event.startDate)}</span>
+            <span>{formatEventStart(event)}</span>
           </div>
 
-          {/* Venue/Location */}
-          {event.venue && (
+          {/* Venue/Location, or how to join an online event */}
+          {event.isOnline ? (
+            <div className="flex items-start text-sm text-gray-600 mb-3">
+              <Globe className="h-4 w-4 mr-2 text-green-600 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <div className="font-medium text-gray-800">Join online</div>
+                <div className="text-gray-500 text-xs mt-0.5">Online event, join from anywhere</div>
+              </div>
+            </div>
+          ) : event.venue && (
             <div className="flex items-start text-sm text-gray-600 mb-3">
               <MapPin className="h-4 w-4 mr-2 text-blue-500 flex-shrink-0 mt-0.5" />
               <div className="flex-1">
@@ -150,6 +158,12 @@ export default function EventCard({ event, onSaveChange }: EventCardProps) {
                 {event.venue.address && event.venue.address !== event.venue.name && (
                   <div className="text-gray-500 text-xs mt-0.5 line-clamp-1">{event.venue.address}</div>
                 )}
+                {distance !== undefined && (
+                  <div className="inline-flex items-center gap-1 mt-1.5 px-2 py-0.5 bg-blue-50 text-blue-700 text-xs font-medium rounded-full">
+                    <Navigation className="h-3 w-3" />
+                    {formatDistance(distance, distanceUnit)} away
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -158,7 +172,7 @@ export default function EventCard({ event, onSaveChange }: EventCardProps) {
           <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
             <div className="flex items-center text-sm font-semibold text-gray-700">
               <DollarSign className="h-4 w-4 mr-1 text-green-500" />
-              <span>{formatPrice()}</span>
+              <span>{formatPrice(event.price)}</span>
             </div>
             <div className="flex items-center text-sm text-blue-600 group-hover:text-blue-700 font-medium">
               <span className="mr-1">View Details</span>
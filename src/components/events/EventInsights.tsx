@@ -0,0 +1,137 @@
+/**
+ * Event Insights Component
+ *
+ * Shows PredictHQ's predictions for an event on its detail page:
+ * - Expected attendance
+ * - Impact meters for the overall and local rank
+ * - Predicted spend and duration
+ * - Labels, strongest first
+ */
+
+import { EventInsights as EventInsightsData } from "@/types/event";
+import {
+  formatAttendance,
+  formatDuration,
+  formatPredictedSpend,
+  getImpactLevel,
+} from "@/utils/insights";
+import { BarChart3, Clock, Coins, Users } from "lucide-react";
+
+interface EventInsightsProps {
+  insights: EventInsightsData;
+}
+
+/**
+ * A 0-100 rank as a labelled bar
+ */
+function ImpactMeter({ label, rank, description }: { label: string; rank: number; description: string }) {
+  const level = getImpactLevel(rank);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between text-sm mb-1">
+        <span className="font-medium text-gray-700" title={description}>
+          {label}
+        </span>
+        <span className="text-gray-900 font-semibold">
+          {level.name} <span className="text-gray-500 font-normal">({rank}/100)</span>
+        </span>
+      </div>
+      <div
+        className="h-2 bg-gray-100 rounded-full overflow-hidden"
+        role="meter"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={rank}
+        aria-valuetext={`${level.name}, ${rank} out of 100`}
+      >
+        <div
+          className="h-full bg-gradient-to-r from-blue-500 to-purple-600 rounded-full"
+          style={{ width: `${Math.min(Math.max(rank, 0), 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function EventInsights({ insights }: EventInsightsProps) {
+  const labels = [...(insights.labels || [])].sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0));
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-3">Event Insights</h2>
+      <div className="rounded-xl border border-gray-100 bg-gray-50 p-5 space-y-5">
+        {/* Headline numbers */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {insights.attendance !== undefined && (
+            <div className="flex items-start gap-3">
+              <Users className="h-5 w-5 text-blue-600 mt-1 flex-shrink-0" />
+              <div>
+                <div className="text-sm font-medium text-gray-500">Expected Attendance</div>
+                <div className="text-gray-900 font-semibold">{formatAttendance(insights.attendance)}</div>
+              </div>
+            </div>
+          )}
+          {insights.predictedSpend !== undefined && (
+            <div className="flex items-start gap-3">
+              <Coins className="h-5 w-5 text-blue-600 mt-1 flex-shrink-0" />
+              <div>
+                <div className="text-sm font-medium text-gray-500">Predicted Spend</div>
+                <div className="text-gray-900 font-semibold">{formatPredictedSpend(insights.predictedSpend)}</div>
+              </div>
+            </div>
+          )}
+          {insights.durationSeconds !== undefined && (
+            <div className="flex items-start gap-3">
+              <Clock className="h-5 w-5 text-blue-600 mt-1 flex-shrink-0" />
+              <div>
+                <div className="text-sm font-medium text-gray-500">Duration</div>
+                <div className="text-gray-900 font-semibold">{formatDuration(insights.durationSeconds)}</div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Impact meters */}
+        {(insights.rank !== undefined || insights.localRank !== undefined) && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <BarChart3 className="h-4 w-4 text-blue-600" />
+              Popularity & Impact
+            </div>
+            {insights.rank !== undefined && (
+              <ImpactMeter
+                label="Overall impact"
+                rank={insights.rank}
+                description="How big the event is compared with all events"
+              />
+            )}
+            {insights.localRank !== undefined && (
+              <ImpactMeter
+                label="Local impact"
+                rank={insights.localRank}
+                description="How big the event is for the area around it"
+              />
+            )}
+          </div>
+        )}
+
+        {/* Labels */}
+        {labels.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {labels.map(({ label, weight }) => (
+              <span
+                key={label}
+                className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700"
+                title={weight !== undefined ? `${Math.round(weight * 100)}% match` : undefined}
+              >
+                #{label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Event Map Component
+ *
+ * Plots events on a tile map:
+ * - One marker per event venue, clustered where events are dense
+ * - Clicking a marker opens an EventCard popup
+ * - The map fits its bounds to the events shown
+ *
+ * The tile source can be changed with NEXT_PUBLIC_MAP_TILE_URL and
+ * NEXT_PUBLIC_MAP_TILE_ATTRIBUTION (e.g. to use a local tile server in dev).
+ *
+ * Leaflet needs `window`, so load this component with next/dynamic and ssr: false.
+ */
+
+"use client";
+
+import { useEffect, useMemo } from "react";
+import L from "leaflet";
+import "leaflet.markercluster";
+import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import { createPathComponent, createElementObject, extendContext } from "@react-leaflet/core";
+import { Event } from "@/types/event";
+import EventCard from "./EventCard";
+import "leaflet/dist/leaflet.css";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import "leaflet.markercluster/dist/MarkerCluster.Default.css";
+
+const TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Whole-world view used when there are no events to fit to
+const DEFAULT_CENTER: L.LatLngExpression = [20, 0];
+const DEFAULT_ZOOM = 2;
+
+// Styled with Tailwind instead of Leaflet's default marker images,
+// which don't resolve through the Next.js bundler
+const markerIcon = L.divIcon({
+  className: "",
+  html: '<div class="h-4 w-4 rounded-full bg-blue-600 border-2 border-white shadow-md"></div>',
+  iconSize: [16, 16],
+  iconAnchor: [8, 8],
+  popupAnchor: [0, -8],
+});
+
+// react-leaflet wrapper around leaflet.markercluster's MarkerClusterGroup
+const MarkerClusterGroup = createPathComponent<L.MarkerClusterGroup, { children?: React.ReactNode }>(
+  ({ children, ...options }, context) => {
+    const group = L.markerClusterGroup(options);
+    return createElementObject(group, extendContext(context, { layerContainer: group }));
+  }
+);
+
+interface MappedEvent {
+  event: Event;
+  position: [number, number];
+}
+
+/**
+ * Fit the map to the given positions whenever they change
+ */
+function FitBounds({ positions }: { positions: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length === 0) {
+      map.setView(DEFAULT_CENTER, DEFAULT_ZOOM);
+      return;
+    }
+    map.fitBounds(L.latLngBounds(positions), { padding: [40, 40], maxZoom: 14 });
+  }, [map, positions]);
+
+  return null;
+}
+
+interface EventMapProps {
+  events: Event[];
+  onSaveChange?: () => void; // Passed through to the popup EventCards
+}
+
+export default function EventMap({ events, onSaveChange }: EventMapProps) {
+  // Only events with coordinates can be plotted
+  const mappedEvents = useMemo<MappedEvent[]>(
+    () =>
+      events
+        .filter((event) => event.venue?.latitude !== undefined && event.venue?.longitude !== undefined)
+        .map((event) => ({
+          event,
+          position: [event.venue!.latitude!, event.venue!.longitude!],
+        })),
+    [events]
+  );
+  const positions = useMemo(() => mappedEvents.map((m) => m.position), [mappedEvents]);
+  const unmappedCount = events.length - mappedEvents.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="h-[600px] rounded-xl overflow-hidden border border-gray-100 shadow-sm">
+        <MapContainer center={DEFAULT_CENTER} zoom={DEFAULT_ZOOM} className="h-full w-full" scrollWheelZoom>
+          <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+          <MarkerClusterGroup>
+            {mappedEvents.map(({ event, position }) => (
+              <Marker key={event.id} position={position} icon={markerIcon}>
+                <Popup minWidth={280} maxWidth={320}>
+                  <EventCard event={event} onSaveChange={onSaveChange} />
+                </Popup>
+              </Marker>
+            ))}
+          </MarkerClusterGroup>
+          <FitBounds positions={positions} />
+        </MapContainer>
+      </div>
+      {unmappedCount > 0 && (
+        <p className="text-sm text-gray-500">
+          {unmappedCount} event{unmappedCount !== 1 ? "s don't" : " doesn't"} have a location and {unmappedCount !== 1 ? "aren't" : "isn't"} shown on the map.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Event Status Badge Component
+ *
+ * Shows an event's lifecycle status (Predicted, Postponed, Cancelled, ...)
+ * as a colored pill.
+ */
+
+import { EventStatus } from "@/types/event";
+import { getEventStatusOption } from "@/utils/eventStatus";
+
+interface EventStatusBadgeProps {
+  status: EventStatus;
+  size?: "sm" | "md";
+}
+
+export default function EventStatusBadge({ status, size = "sm" }: EventStatusBadgeProps) {
+  const option = getEventStatusOption(status);
+  const sizeClassName = size === "md" ? "px-3 py-1 text-sm" : "px-2 py-0.5 text-xs";
+
+  return (
+    <span className={`inline-block font-semibold rounded-full ${sizeClassName} ${option.badgeClassName}`}>
+      {option.name}
+    </span>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Save Search Button Component
+ *
+ * Lets the user name the current search and save it, so it can be
+ * re-run from the Saved Searches page. The first page of results is
+ * stored as already seen, so only later additions to it count as new.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { EventFilters } from "@/types/event";
+import { createSavedSearch } from "@/services/savedSearches";
+import { Bookmark, Check, X } from "lucide-react";
+import { toast } from "react-toastify";
+
+interface SaveSearchButtonProps {
+  filters: EventFilters;
+  eventIds: string[]; // events on the first page of results, the same window a re-run checks
+}
+
+/**
+ * Suggest a name for a search from its filters
+ */
+function suggestName(filters: EventFilters): string {
+  if (filters.query && filters.city) {
+    return `${filters.query} in ${filters.city}`;
+  }
+  return filters.query || filters.city || "";
+}
+
+export default function SaveSearchButton({ filters, eventIds }: SaveSearchButtonProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState("");
+
+  const startEditing = () => {
+    setName(suggestName(filters));
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    if (createSavedSearch(name, filters, eventIds)) {
+      toast.success("Search saved!", {
+        position: "top-right",
+        autoClose: 2000,
+      });
+      setIsEditing(false);
+    } else {
+      toast.error("Couldn't save this search. Please try again.", {
+        position: "top-right",
+        autoClose: 3000,
+      });
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <button
+        type="button"
+        onClick={startEditing}
+        className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white py-1.5 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        <Bookmark className="h-4 w-4" />
+        Save search
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="flex items-center gap-2">
+      <input
+        type="text"
+        autoFocus
+        placeholder="Name this search"
+        aria-label="Search name"
+        value={name}
+        maxLength={80}
+        onChange={(e) => setName(e.target.value)}
+        className="w-48 rounded-lg border border-gray-300 bg-white py-1.5 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+      />
+      <button
+        type="submit"
+        disabled={!name.trim()}
+        aria-label="Save"
+        className="rounded-lg bg-blue-600 p-2 text-white hover:bg-blue-700 transition-colors disabled:opacity-60"
+      >
+        <Check className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsEditing(false)}
+        aria-label="Cancel"
+        className="rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </form>
+  );
+}
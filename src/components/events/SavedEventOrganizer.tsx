@@ -0,0 +1,184 @@
+/**
+ * Saved Event Organizer Component
+ *
+ * Shown under a saved event on My Events. Lets the user:
+ * - Add the event to collections or remove it from them
+ * - Add and remove tags
+ * - Keep a private note (saved when the note field loses focus)
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { EventCollection, SavedEvent } from "@/types/event";
+import { useAppDispatch } from "@/redux/hooks";
+import {
+  savedEventCollectionToggled,
+  savedEventNoteUpdated,
+  savedEventTagsUpdated,
+} from "@/redux/slices/savedEventsSlice";
+import { parseTagInput } from "@/utils/tags";
+import { ChevronDown, ChevronUp, FolderPlus, StickyNote, Tag, X } from "lucide-react";
+
+interface SavedEventOrganizerProps {
+  saved: SavedEvent;
+  collections: EventCollection[];
+}
+
+export default function SavedEventOrganizer({ saved, collections }: SavedEventOrganizerProps) {
+  const dispatch = useAppDispatch();
+  const [isOpen, setIsOpen] = useState(false);
+  const [tagInput, setTagInput] = useState("");
+  const [note, setNote] = useState(saved.note || "");
+
+  const tags = saved.tags || [];
+  const collectionIds = saved.collectionIds || [];
+
+  // Pick up notes changed elsewhere (e.g. in another tab)
+  useEffect(() => {
+    setNote(saved.note || "");
+  }, [saved.note]);
+
+  const handleAddTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = parseTagInput(tagInput);
+    if (added.length > 0) {
+      dispatch(savedEventTagsUpdated({ eventId: saved.id, tags: [...tags, ...added] }));
+    }
+    setTagInput("");
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    dispatch(savedEventTagsUpdated({ eventId: saved.id, tags: tags.filter((entry) => entry !== tag) }));
+  };
+
+  const handleSaveNote = () => {
+    if (note.trim() !== (saved.note || "")) {
+      dispatch(savedEventNoteUpdated({ eventId: saved.id, note }));
+    }
+  };
+
+  return (
+    <div className="mt-2 rounded-xl border border-gray-100 bg-white px-4 py-3 text-sm shadow-sm">
+      {/* Summary: tags and note preview */}
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between gap-2 text-left text-gray-600 hover:text-gray-900"
+        aria-expanded={isOpen}
+      >
+        <span className="flex min-w-0 flex-wrap items-center gap-1">
+          {tags.length === 0 && !saved.note && <span className="text-gray-400">Add to a collection, tag or note</span>}
+          {tags.map((tag) => (
+            <span key={tag} className="rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700">
+              #{tag}
+            </span>
+          ))}
+          {saved.note && (
+            <span className="flex min-w-0 items-center gap-1 text-xs text-gray-500">
+              <StickyNote className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">{saved.note}</span>
+            </span>
+          )}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4 flex-shrink-0" /> : <ChevronDown className="h-4 w-4 flex-shrink-0" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3 border-t border-gray-100 pt-3">
+          {/* Collections */}
+          <div>
+            <p className="mb-1 flex items-center gap-1 text-xs font-semibold uppercase text-gray-500">
+              <FolderPlus className="h-3 w-3" />
+              Collections
+            </p>
+            {collections.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {collections.map((collection) => {
+                  const isMember = collectionIds.includes(collection.id);
+                  return (
+                    <button
+                      key={collection.id}
+                      type="button"
+                      onClick={() =>
+                        dispatch(savedEventCollectionToggled({ eventId: saved.id, collectionId: collection.id }))
+                      }
+                      className={`rounded-full border px-2 py-0.5 text-xs font-medium transition-colors ${
+                        isMember
+                          ? "border-blue-600 bg-blue-600 text-white"
+                          : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                      }`}
+                      aria-pressed={isMember}
+                    >
+                      {collection.name}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">Create a collection above to group events.</p>
+            )}
+          </div>
+
+          {/* Tags */}
+          <div>
+            <p className="mb-1 flex items-center gap-1 text-xs font-semibold uppercase text-gray-500">
+              <Tag className="h-3 w-3" />
+              Tags
+            </p>
+            {tags.length > 0 && (
+              <div className="mb-2 flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700"
+                  >
+                    #{tag}
+                    <button type="button" onClick={() => handleRemoveTag(tag)} aria-label={`Remove tag ${tag}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <form onSubmit={handleAddTags} className="flex gap-2">
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="e.g. work, client dinner"
+                aria-label="Add tags"
+                className="min-w-0 flex-1 rounded-lg border border-gray-300 px-2 py-1 text-xs focus:border-transparent focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!tagInput.trim()}
+                className="rounded-lg bg-blue-600 px-2 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+
+          {/* Note */}
+          <div>
+            <p className="mb-1 flex items-center gap-1 text-xs font-semibold uppercase text-gray-500">
+              <StickyNote className="h-3 w-3" />
+              Private note
+            </p>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              onBlur={handleSaveNote}
+              rows={3}
+              maxLength={2000}
+              placeholder="Only you can see this"
+              aria-label="Private note"
+              className="w-full rounded-lg border border-gray-300 px-2 py-1 text-xs focus:border-transparent focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Saved Events Backup Component
+ *
+ * Export saved events to JSON (re-importable) or CSV (for spreadsheets),
+ * and import a JSON export from another browser or machine. After an
+ * import, shows what was added and which entries were skipped.
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/redux/hooks";
+import { selectCollections, selectSavedEvents, savedEventsImported } from "@/redux/slices/savedEventsSlice";
+import {
+  buildSavedEventsCsv,
+  buildSavedEventsJson,
+  parseSavedEventsImport,
+  SavedEventsImportResult,
+} from "@/utils/savedEventsTransfer";
+import { downloadFile } from "@/utils/download";
+import { Download, Upload, X } from "lucide-react";
+import { toast } from "react-toastify";
+
+interface SavedEventsBackupProps {
+  onImported?: (eventIds: string[]) => void; // Called with the IDs of newly imported events
+}
+
+export default function SavedEventsBackup({ onImported }: SavedEventsBackupProps) {
+  const dispatch = useAppDispatch();
+  const saved = useAppSelector(selectSavedEvents);
+  const collections = useAppSelector(selectCollections);
+  const [report, setReport] = useState<SavedEventsImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportJson = () => {
+    downloadFile(buildSavedEventsJson(saved, collections), "nearnow-saved-events.json", "application/json");
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(buildSavedEventsCsv(saved, collections), "nearnow-saved-events.csv", "text/csv");
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const result = parseSavedEventsImport(await file.text(), saved, collections);
+      dispatch(savedEventsImported({ events: result.events, collections: result.collections }));
+      setReport(result);
+      toast.success(`Imported ${result.events.length} event${result.events.length !== 1 ? "s" : ""}`, {
+        position: "top-right",
+        autoClose: 2000,
+      });
+      if (result.events.length > 0 && onImported) {
+        onImported(result.events.map((entry) => entry.id));
+      }
+    } catch (error: any) {
+      setReport(null);
+      toast.error(error?.message || "Couldn't import this file.", {
+        position: "top-right",
+        autoClose: 4000,
+      });
+    }
+  };
+
+  const skipped = report ? report.duplicates.length + report.unknown.length + report.invalid.length : 0;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        {saved.length > 0 && (
+          <>
+            <button
+              onClick={handleExportJson}
+              className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white py-1.5 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+              title="Download saved events as a JSON file you can import elsewhere"
+            >
+              <Download className="h-4 w-4" />
+              Export JSON
+            </button>
+            <button
+              onClick={handleExportCsv}
+              className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white py-1.5 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+              title="Download saved events as a spreadsheet"
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white py-1.5 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          title="Import saved events from a NearNow JSON export"
+        >
+          <Upload className="h-4 w-4" />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {/* Import report */}
+      {report && (
+        <div className="w-full rounded-xl border border-blue-200 bg-blue-50 p-4 text-sm text-blue-900">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-semibold">
+              Imported {report.events.length} event{report.events.length !== 1 ? "s" : ""}
+              {skipped > 0 && `, skipped ${skipped}`}
+            </p>
+            <button onClick={() => setReport(null)} aria-label="Dismiss import report" className="text-blue-700 hover:text-blue-900">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {report.duplicates.length > 0 && (
+            <p className="mt-2">
+              Already saved: <span className="text-xs text-blue-700">{report.duplicates.join(", ")}</span>
+            </p>
+          )}
+          {report.unknown.length > 0 && (
+            <p className="mt-2">
+              From a previous events API and no longer available:{" "}
+              <span className="text-xs text-blue-700">{report.unknown.join(", ")}</span>
+            </p>
+          )}
+          {report.invalid.length > 0 && (
+            <p className="mt-2">
+              Not valid saved events: <span className="text-xs text-blue-700">{report.invalid.join(", ")}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -3,29 +3,119 @@
  * 
  * Provides search functionality and filters for events:
  * - Search bar for keywords
- * - City/Location filter
- * - Date filter (Today, This Weekend, Custom)
- * - Event type filter
+ * - City/Location filter, with a search radius in miles or km
+ * - Date filter (presets such as Tonight or This Weekend, or a custom range)
+ * - Event category (multi-select) and label filters
+ * - Event status (include or exclude predicted, postponed and cancelled events)
  * - Price range filter
+ * - Attendance mode (online only or in person only)
+ * - Sort order
  */
 
 "use client";
 
 import { useState } from "react";
-import { Search, MapPin, Calendar, Tag, DollarSign, X } from "lucide-react";
-import { EventFilters } from "@/types/event";
+import { Search, MapPin, Calendar, Tag, DollarSign, ArrowUpDown, Navigation, Monitor, X } from "lucide-react";
+import { AttendanceMode, EventFilters, EventSort, EventStatus } from "@/types/event";
+import { EVENT_CATEGORIES, EVENT_LABELS, splitFilterValue, joinFilterValue } from "@/utils/eventCategories";
+import {
+  DATE_PRESETS,
+  DatePreset,
+  getPresetRange,
+  getCustomRange,
+  findPresetForRange,
+  toDateInputValue,
+} from "@/utils/dateRange";
+import { EVENT_SORT_OPTIONS, DEFAULT_EVENT_SORT } from "@/utils/eventSort";
+import { DistanceUnit, formatDistance, toMiles } from "@/utils/distance";
+import { EVENT_STATUSES, DEFAULT_SEARCH_STATUSES } from "@/utils/eventStatus";
+import { ATTENDANCE_MODES } from "@/utils/attendanceMode";
+import { useAppDispatch, useAppSelector } from "@/redux/hooks";
+import { selectPreferences, distanceUnitChanged } from "@/redux/slices/preferencesSlice";
+
+// Radius choices, in the user's distance unit
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+
+// Statuses offered as filters (removed events are never worth searching for)
+const STATUS_OPTIONS = EVENT_STATUSES.filter((option) => option.value !== "deleted");
+
+/**
+ * Get the selected statuses from a status filter
+ */
+function getStatusSelection(status: string | undefined): EventStatus[] {
+  return status ? (status.split(",") as EventStatus[]) : DEFAULT_SEARCH_STATUSES;
+}
+
+/**
+ * Build the status filter for a selection, leaving the default selection out
+ */
+function toStatusFilter(selection: EventStatus[]): string | undefined {
+  const isDefault =
+    selection.length === DEFAULT_SEARCH_STATUSES.length &&
+    DEFAULT_SEARCH_STATUSES.every((status) => selection.includes(status));
+  return isDefault ? undefined : joinFilterValue(selection);
+}
 
 interface SearchFiltersProps {
   onFiltersChange: (filters: EventFilters) => void;
   initialFilters?: EventFilters;
+  canSortByDistance?: boolean; // whether the user's location is known
 }
 
-export default function SearchFilters({ onFiltersChange, initialFilters = {} }: SearchFiltersProps) {
+/**
+ * Pick the price option matching a price range (e.g. one restored from the URL)
+ */
+function getPriceOption(price: EventFilters["price"]): string {
+  if (!price) return "";
+  if (price.min === 0 && price.max === 0) return "free";
+  if (price.min === 0 && price.max === 50) return "low";
+  if (price.min === 50 && price.max === 100) return "medium";
+  if (price.min === 100 && price.max === undefined) return "high";
+  return "";
+}
+
+/**
+ * Pick the radius option matching a radius in miles (e.g. one restored from the URL)
+ * Radii that aren't one of the options in this unit are shown as "other"
+ */
+function getRadiusOption(radius: number | undefined, unit: DistanceUnit): string {
+  if (radius === undefined) return "";
+  const option = RADIUS_OPTIONS.find((value) => toMiles(value, unit) === radius);
+  return option !== undefined ? String(option) : "other";
+}
+
+/**
+ * Pick the date option matching a date range (e.g. one restored from the URL)
+ * Ranges that aren't a current preset are shown as a custom range
+ */
+function getDateOption(filters: EventFilters): string {
+  if (!filters.startDate) return "";
+  return findPresetForRange(filters) ?? "custom";
+}
+
+export default function SearchFilters({
+  onFiltersChange,
+  initialFilters = {},
+  canSortByDistance = false,
+}: SearchFiltersProps) {
   const [searchQuery, setSearchQuery] = useState(initialFilters.query || "");
   const [city, setCity] = useState(initialFilters.city || "");
-  const [dateFilter, setDateFilter] = useState<string>("");
-  const [customDate, setCustomDate] = useState(initialFilters.startDate || "");
-  const [priceFilter, setPriceFilter] = useState<string>("");
+  const [dateFilter, setDateFilter] = useState<string>(getDateOption(initialFilters));
+  const [customFrom, setCustomFrom] = useState(
+    getDateOption(initialFilters) === "custom" ? toDateInputValue(initialFilters.startDate) : ""
+  );
+  const [customTo, setCustomTo] = useState(
+    getDateOption(initialFilters) === "custom" ? toDateInputValue(initialFilters.endDate) : ""
+  );
+  const [priceFilter, setPriceFilter] = useState<string>(getPriceOption(initialFilters.price));
+  const [categories, setCategories] = useState<string[]>(splitFilterValue(initialFilters.category));
+  const [labels, setLabels] = useState<string[]>(splitFilterValue(initialFilters.label));
+  const [sort, setSort] = useState<EventSort>(initialFilters.sort || DEFAULT_EVENT_SORT);
+  const [statuses, setStatuses] = useState<EventStatus[]>(getStatusSelection(initialFilters.status));
+  const [attendanceMode, setAttendanceMode] = useState<string>(initialFilters.attendanceMode || "");
+  const dispatch = useAppDispatch();
+  const { distanceUnit } = useAppSelector(selectPreferences);
+  const radiusOption = getRadiusOption(initialFilters.radius, distanceUnit);
 
   // Handle search input
   const handleSearch = (value: string) => {
@@ -36,7 +126,21 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
   // Handle city input
   const handleCityChange = (value: string) => {
     setCity(value);
-    applyFilters({ ...getCurrentFilters(), city: value || undefined });
+    // A typed city replaces any pinned coordinates (e.g. from a saved search)
+    applyFilters({ ...getCurrentFilters(), city: value || undefined, latitude: undefined, longitude: undefined });
+  };
+
+  // Handle radius selection ("" lets the search pick one)
+  const handleRadiusChange = (value: string) => {
+    applyFilters({ ...getCurrentFilters(), radius: value ? toMiles(Number(value), distanceUnit) : undefined });
+  };
+
+  // Switch between miles and km, keeping the same radius choice
+  const handleUnitChange = (unit: DistanceUnit) => {
+    dispatch(distanceUnitChanged(unit));
+    if (radiusOption && radiusOption !== "other") {
+      applyFilters({ ...getCurrentFilters(), radius: toMiles(Number(radiusOption), unit) });
+    }
   };
 
   // Handle date filter selection
@@ -44,27 +148,18 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
     setDateFilter(filter);
     const filters = { ...getCurrentFilters() };
     
-    if (filter === "today") {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      filters.startDate = today.toISOString();
-      filters.endDate = tomorrow.toISOString();
-    } else if (filter === "weekend") {
-      const today = new Date();
-      const dayOfWeek = today.getDay();
-      const daysUntilSaturday = 6 - dayOfWeek;
-      const saturday = new Date(today);
-      saturday.setDate(today.getDate() + daysUntilSaturday);
-      saturday.setHours(0, 0, 0, 0);
-      const sunday = new Date(saturday);
-      sunday.setDate(saturday.getDate() + 1);
-      sunday.setHours(23, 59, 59, 999);
-      filters.startDate = saturday.toISOString();
-      filters.endDate = sunday.toISOString();
-    } else if (filter === "custom") {
-      // Custom date will be handled separately
+    if (filter === "custom") {
+      // Custom range is applied once a start date is picked
+      const range = customFrom ? getCustomRange(customFrom, customTo || undefined) : null;
+      if (!range) {
+        return;
+      }
+      filters.startDate = range.startDate;
+      filters.endDate = range.endDate;
+    } else if (filter) {
+      const range = getPresetRange(filter as DatePreset);
+      filters.startDate = range.startDate;
+      filters.endDate = range.endDate;
     } else {
       filters.startDate = undefined;
       filters.endDate = undefined;
@@ -73,19 +168,16 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
     applyFilters(filters);
   };
 
-  // Handle custom date
-  const handleCustomDate = (date: string) => {
-    setCustomDate(date);
-    if (date) {
-      const selectedDate = new Date(date);
-      selectedDate.setHours(0, 0, 0, 0);
-      const nextDay = new Date(selectedDate);
-      nextDay.setDate(nextDay.getDate() + 1);
-      applyFilters({
-        ...getCurrentFilters(),
-        startDate: selectedDate.toISOString(),
-        endDate: nextDay.toISOString(),
-      });
+  // Handle custom range dates
+  const handleCustomRange = (from: string, to: string) => {
+    setCustomFrom(from);
+    // Keep the end date from falling before the start date
+    const end = to && from && to < from ? from : to;
+    setCustomTo(end);
+
+    const range = from ? getCustomRange(from, end || undefined) : null;
+    if (range) {
+      applyFilters({ ...getCurrentFilters(), ...range });
     }
   };
 
@@ -109,14 +201,65 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
     applyFilters(filters);
   };
 
+  // Toggle a category on or off
+  const handleCategoryToggle = (value: string) => {
+    const updated = categories.includes(value)
+      ? categories.filter((c) => c !== value)
+      : [...categories, value];
+    setCategories(updated);
+    applyFilters({ ...getCurrentFilters(), category: joinFilterValue(updated) });
+  };
+
+  // Toggle a label on or off
+  const handleLabelToggle = (value: string) => {
+    const updated = labels.includes(value)
+      ? labels.filter((l) => l !== value)
+      : [...labels, value];
+    setLabels(updated);
+    applyFilters({ ...getCurrentFilters(), label: joinFilterValue(updated) });
+  };
+
+  // Toggle a status on or off (at least one stays selected)
+  const handleStatusToggle = (value: EventStatus) => {
+    const updated = statuses.includes(value)
+      ? statuses.filter((s) => s !== value)
+      : STATUS_OPTIONS.map((option) => option.value).filter((s) => s === value || statuses.includes(s));
+    if (updated.length === 0) {
+      return;
+    }
+    setStatuses(updated);
+    applyFilters({ ...getCurrentFilters(), status: toStatusFilter(updated) });
+  };
+
+  // Handle attendance mode selection ("" for both online and in person)
+  const handleAttendanceModeChange = (value: string) => {
+    setAttendanceMode(value);
+    applyFilters({ ...getCurrentFilters(), attendanceMode: (value || undefined) as AttendanceMode | undefined });
+  };
+
+  // Handle sort order selection
+  const handleSortChange = (value: EventSort) => {
+    setSort(value);
+    // The default order is left out of the filters (and the URL)
+    applyFilters({ ...getCurrentFilters(), sort: value === DEFAULT_EVENT_SORT ? undefined : value });
+  };
+
   // Get current filter state
   const getCurrentFilters = (): EventFilters => {
     return {
       query: searchQuery || undefined,
       city: city || undefined,
+      latitude: initialFilters.latitude,
+      longitude: initialFilters.longitude,
+      radius: initialFilters.radius,
       startDate: initialFilters.startDate,
       endDate: initialFilters.endDate,
       price: initialFilters.price,
+      category: joinFilterValue(categories),
+      label: joinFilterValue(labels),
+      status: toStatusFilter(statuses),
+      attendanceMode: (attendanceMode || undefined) as AttendanceMode | undefined,
+      sort: sort === DEFAULT_EVENT_SORT ? undefined : sort,
     };
   };
 
@@ -130,12 +273,28 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
     setSearchQuery("");
     setCity("");
     setDateFilter("");
-    setCustomDate("");
+    setCustomFrom("");
+    setCustomTo("");
     setPriceFilter("");
+    setCategories([]);
+    setLabels([]);
+    setSort(DEFAULT_EVENT_SORT);
+    setStatuses(DEFAULT_SEARCH_STATUSES);
+    setAttendanceMode("");
     onFiltersChange({});
   };
 
-  const hasActiveFilters = searchQuery || city || dateFilter || customDate || priceFilter;
+  const hasActiveFilters =
+    searchQuery ||
+    city ||
+    radiusOption ||
+    dateFilter ||
+    priceFilter ||
+    categories.length > 0 ||
+    labels.length > 0 ||
+    toStatusFilter(statuses) !== undefined ||
+    attendanceMode ||
+    sort !== DEFAULT_EVENT_SORT;
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6">
@@ -156,7 +315,7 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
       </div>
 
       {/* Filters Row */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {/* City Filter */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -172,6 +331,47 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
           />
         </div>
 
+        {/* Radius Filter */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="search-radius" className="block text-sm font-medium text-gray-700">
+              <Navigation className="h-4 w-4 inline mr-1" />
+              Distance
+            </label>
+            <div className="flex rounded-md border border-gray-300 text-xs font-medium overflow-hidden" role="group" aria-label="Distance unit">
+              {(["mi", "km"] as DistanceUnit[]).map((unit) => (
+                <button
+                  key={unit}
+                  type="button"
+                  onClick={() => handleUnitChange(unit)}
+                  aria-pressed={distanceUnit === unit}
+                  className={`px-2 py-0.5 transition-colors ${
+                    distanceUnit === unit ? "bg-blue-600 text-white" : "bg-white text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  {unit}
+                </button>
+              ))}
+            </div>
+          </div>
+          <select
+            id="search-radius"
+            value={radiusOption}
+            onChange={(e) => handleRadiusChange(e.target.value)}
+            className="block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          >
+            <option value="">Automatic</option>
+            {RADIUS_OPTIONS.map((value) => (
+              <option key={value} value={String(value)}>
+                Within {value} {distanceUnit}
+              </option>
+            ))}
+            {radiusOption === "other" && initialFilters.radius !== undefined && (
+              <option value="other">Within {formatDistance(initialFilters.radius, distanceUnit)}</option>
+            )}
+          </select>
+        </div>
+
         {/* Date Filter */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -184,17 +384,31 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
             className="block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
           >
             <option value="">Any Date</option>
-            <option value="today">Today</option>
-            <option value="weekend">This Weekend</option>
-            <option value="custom">Custom Date</option>
+            {DATE_PRESETS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.name}
+              </option>
+            ))}
+            <option value="custom">Custom Range</option>
           </select>
           {dateFilter === "custom" && (
-            <input
-              type="date"
-              value={customDate}
-              onChange={(e) => handleCustomDate(e.target.value)}
-              className="mt-2 block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
-            />
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              <input
+                type="date"
+                aria-label="From"
+                value={customFrom}
+                onChange={(e) => handleCustomRange(e.target.value, customTo)}
+                className="block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+              <input
+                type="date"
+                aria-label="To"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => handleCustomRange(customFrom, e.target.value)}
+                className="block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
           )}
         </div>
 
@@ -217,6 +431,63 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
           </select>
         </div>
 
+        {/* Attendance Mode */}
+        <div>
+          <label htmlFor="attendance-mode" className="block text-sm font-medium text-gray-700 mb-2">
+            <Monitor className="h-4 w-4 inline mr-1" />
+            Attendance
+          </label>
+          <select
+            id="attendance-mode"
+            value={attendanceMode}
+            onChange={(e) => handleAttendanceModeChange(e.target.value)}
+            className="block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          >
+            <option value="">Online & In Person</option>
+            {ATTENDANCE_MODES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+          {attendanceMode === "online" && (city || initialFilters.latitude !== undefined) && (
+            <p className="mt-1 text-xs text-gray-500">Online events are shown from anywhere.</p>
+          )}
+        </div>
+
+        {/* Sort Order */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <ArrowUpDown className="h-4 w-4 inline mr-1" />
+            Sort By
+          </label>
+          <select
+            value={sort}
+            onChange={(e) => handleSortChange(e.target.value as EventSort)}
+            className="block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          >
+            {/* Distance needs the user's location (kept selectable if already chosen) */}
+            {EVENT_SORT_OPTIONS.map((option) => (
+              <option
+                key={option.value}
+                value={option.value}
+                disabled={option.value === "nearest" && !canSortByDistance && sort !== "nearest"}
+              >
+                {option.name}
+              </option>
+            ))}
+          </select>
+          {sort === "relevance" && !searchQuery && (
+            <p className="mt-1 text-xs text-gray-500">Enter keywords to rank by relevance.</p>
+          )}
+          {sort === "nearest" && !canSortByDistance && (
+            <p className="mt-1 text-xs text-gray-500">Allow location access to sort by distance.</p>
+          )}
+          {sort === "nearest" && canSortByDistance && (
+            <p className="mt-1 text-xs text-gray-500">Loading more events can reorder the list.</p>
+          )}
+        </div>
+
         {/* Clear Filters Button */}
         <div className="flex items-end">
           {hasActiveFilters && (
@@ -230,6 +501,81 @@ export default function SearchFilters({ onFiltersChange, initialFilters = {} }:
           )}
         </div>
       </div>
+
+      {/* Category Filter */}
+      <div className="mt-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <Tag className="h-4 w-4 inline mr-1" />
+          Categories
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {EVENT_CATEGORIES.map((option) => {
+            const isSelected = categories.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleCategoryToggle(option.value)}
+                aria-pressed={isSelected}
+                className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                  isSelected
+                    ? "bg-blue-600 text-white border-blue-600"
+                    : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                }`}
+              >
+                {option.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Label Filter */}
+      <div className="mt-3">
+        <div className="flex flex-wrap gap-2">
+          {EVENT_LABELS.map((option) => {
+            const isSelected = labels.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleLabelToggle(option.value)}
+                aria-pressed={isSelected}
+                className={`px-2.5 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                  isSelected
+                    ? "bg-purple-100 text-purple-700 border-purple-300"
+                    : "bg-gray-50 text-gray-600 border-gray-200 hover:bg-gray-100"
+                }`}
+              >
+                #{option.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Status Filter */}
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700 mr-1">Show:</span>
+        {STATUS_OPTIONS.map((option) => {
+          const isSelected = statuses.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => handleStatusToggle(option.value)}
+              aria-pressed={isSelected}
+              className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                isSelected
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+              }`}
+            >
+              {option.name}
+            </button>
+          );
+        })}
+      </div>
     </div>
   );
 }
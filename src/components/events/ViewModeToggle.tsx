@@ -0,0 +1,42 @@
+/**
+ * View Mode Toggle Component
+ *
+ * Switches a list of events between the card grid and the map.
+ */
+
+"use client";
+
+import { LayoutGrid, Map as MapIcon } from "lucide-react";
+
+export type ViewMode = "list" | "map";
+
+interface ViewModeToggleProps {
+  value: ViewMode;
+  onChange: (mode: ViewMode) => void;
+}
+
+const options: { mode: ViewMode; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { mode: "list", label: "List", icon: LayoutGrid },
+  { mode: "map", label: "Map", icon: MapIcon },
+];
+
+export default function ViewModeToggle({ value, onChange }: ViewModeToggleProps) {
+  return (
+    <div className="inline-flex rounded-lg border border-gray-300 bg-white p-0.5" role="group" aria-label="View mode">
+      {options.map(({ mode, label, icon: Icon }) => (
+        <button
+          key={mode}
+          type="button"
+          onClick={() => onChange(mode)}
+          aria-pressed={value === mode}
+          className={`flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+            value === mode ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-gray-50"
+          }`}
+        >
+          <Icon className="h-4 w-4" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Cross-Tab Sync
+ *
+ * Keeps saved events, collections and preferences in step across open tabs.
+ * redux-persist writes the store to localStorage, and the browser fires a
+ * `storage` event in every other tab when it does; we read the slices back
+ * out of it and dispatch them, so EventCard, the event detail page and My
+ * Events update live everywhere.
+ *
+ * redux-persist stores every persisted slice in one localStorage value, so
+ * a tab that writes any change also writes its copy of every other slice.
+ * Syncing saved events and preferences keeps those copies the same in every
+ * tab, so nothing is lost whichever tab writes last. The location and search
+ * slices are not synced and are last-write-wins: location is this device's
+ * position, which every tab requests again when it loads, and the persisted
+ * search is just the most recent one in any tab.
+ *
+ * Changes that arrive before this tab has loaded its persisted state are
+ * held until it has, since rehydrating would otherwise overwrite them.
+ */
+
+import { savedEventsSynced, SavedEventsState } from "./slices/savedEventsSlice";
+import preferencesReducer, { preferencesSynced, PreferencesState } from "./slices/preferencesSlice";
+import { AppStore, PERSIST_STORAGE_KEY, selectIsRehydrated } from "./store";
+
+/**
+ * Slices read back from another tab's write
+ */
+interface SyncedState {
+  savedEvents: SavedEventsState;
+  preferences: Partial<PreferencesState> | null; // null if the value has no preferences
+}
+
+/**
+ * Read the synced slices out of redux-persist's localStorage value
+ * Each persisted slice is itself stored as a JSON string
+ */
+function readPersistedState(value: string): SyncedState | null {
+  const persisted = JSON.parse(value);
+  if (typeof persisted?.savedEvents !== "string") {
+    return null;
+  }
+  const { events, collections } = JSON.parse(persisted.savedEvents);
+  if (!Array.isArray(events)) {
+    return null;
+  }
+  const preferences = typeof persisted.preferences === "string" ? JSON.parse(persisted.preferences) : null;
+  return {
+    savedEvents: { events, collections: Array.isArray(collections) ? collections : [] },
+    preferences: preferences && typeof preferences === "object" ? preferences : null,
+  };
+}
+
+/**
+ * Dispatch the slices from another tab's write, skipping ones that haven't changed
+ * Dispatching a no-op update would persist this tab's state again, and the
+ * other tab would get a storage event back for nothing
+ */
+function applySyncedState(store: AppStore, newValue: string | null): void {
+  try {
+    const synced = newValue
+      ? readPersistedState(newValue)
+      : { savedEvents: { events: [], collections: [] }, preferences: {} };
+    if (!synced) {
+      return;
+    }
+
+    const current = store.getState();
+    if (JSON.stringify(synced.savedEvents) !== JSON.stringify(current.savedEvents)) {
+      store.dispatch(savedEventsSynced(synced.savedEvents));
+    }
+    if (synced.preferences) {
+      const action = preferencesSynced(synced.preferences);
+      if (JSON.stringify(preferencesReducer(current.preferences, action)) !== JSON.stringify(current.preferences)) {
+        store.dispatch(action);
+      }
+    }
+  } catch (error) {
+    console.warn("Ignoring unreadable saved state from another tab:", error);
+  }
+}
+
+/**
+ * Start syncing state changed in other tabs into this tab's store
+ *
+ * @param store - The app's Redux store
+ * @returns Function that stops syncing
+ */
+export function startCrossTabSync(store: AppStore): () => void {
+  // Latest value written by another tab before this one rehydrated (undefined if none)
+  let pendingValue: string | null | undefined;
+  let unsubscribe: (() => void) | undefined;
+
+  const applyPendingOnceRehydrated = () => {
+    if (!selectIsRehydrated(store.getState())) {
+      return;
+    }
+    unsubscribe?.();
+    unsubscribe = undefined;
+    if (pendingValue !== undefined) {
+      const value = pendingValue;
+      pendingValue = undefined;
+      applySyncedState(store, value);
+    }
+  };
+
+  const handleStorage = (e: StorageEvent) => {
+    // A null key means another tab cleared localStorage entirely
+    if (e.storageArea !== localStorage || (e.key !== null && e.key !== PERSIST_STORAGE_KEY)) {
+      return;
+    }
+
+    if (!selectIsRehydrated(store.getState())) {
+      pendingValue = e.newValue;
+      unsubscribe = unsubscribe || store.subscribe(applyPendingOnceRehydrated);
+      return;
+    }
+
+    applySyncedState(store, e.newValue);
+  };
+
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    unsubscribe?.();
+  };
+}
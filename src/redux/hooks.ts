@@ -0,0 +1,12 @@
+/**
+ * Typed Redux Hooks
+ *
+ * Use these instead of plain useDispatch/useSelector so state and
+ * dispatch are typed with our store.
+ */
+
+import { useDispatch, useSelector } from "react-redux";
+import type { AppDispatch, RootState } from "./store";
+
+export const useAppDispatch = useDispatch.withTypes<AppDispatch>();
+export const useAppSelector = useSelector.withTypes<RootState>();
@@ -0,0 +1,56 @@
+/**
+ * Location Slice
+ *
+ * The user's current location from the browser's geolocation API.
+ * The last known coordinates are persisted, so searches can use them
+ * straight away on the next visit while a fresh position is requested.
+ */
+
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "../store";
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export interface LocationState {
+  coords: Coordinates | null;
+  error: string | null; // why the location isn't available, if it isn't
+  updatedAt?: string; // ISO 8601, when coords were last updated
+}
+
+const initialState: LocationState = {
+  coords: null,
+  error: null,
+};
+
+const locationSlice = createSlice({
+  name: "location",
+  initialState,
+  reducers: {
+    locationUpdated: {
+      reducer(state, action: PayloadAction<{ coords: Coordinates; updatedAt: string }>) {
+        state.coords = action.payload.coords;
+        state.updatedAt = action.payload.updatedAt;
+        state.error = null;
+      },
+      prepare(coords: Coordinates) {
+        return { payload: { coords, updatedAt: new Date().toISOString() } };
+      },
+    },
+
+    // Keep any last known coordinates; the error explains why they weren't refreshed
+    locationFailed(state, action: PayloadAction<string>) {
+      state.error = action.payload;
+    },
+  },
+});
+
+export const { locationUpdated, locationFailed } = locationSlice.actions;
+
+// Selectors
+export const selectUserLocation = (state: RootState) => state.location.coords;
+export const selectLocationError = (state: RootState) => state.location.error;
+
+export default locationSlice.reducer;
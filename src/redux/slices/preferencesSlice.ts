@@ -0,0 +1,47 @@
+/**
+ * Preferences Slice
+ *
+ * User preferences that apply across pages, persisted to localStorage and
+ * synced across open tabs (see crossTabSync.ts).
+ */
+
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import type { ViewMode } from "@/components/events/ViewModeToggle";
+import type { DistanceUnit } from "@/utils/distance";
+import type { RootState } from "../store";
+
+export interface PreferencesState {
+  viewMode: ViewMode; // list or map, shared by Discover and My Events
+  distanceUnit: DistanceUnit; // for the radius filter and distance badges
+}
+
+const initialState: PreferencesState = {
+  viewMode: "list",
+  distanceUnit: "mi",
+};
+
+const preferencesSlice = createSlice({
+  name: "preferences",
+  initialState,
+  reducers: {
+    viewModeChanged(state, action: PayloadAction<ViewMode>) {
+      state.viewMode = action.payload;
+    },
+    distanceUnitChanged(state, action: PayloadAction<DistanceUnit>) {
+      state.distanceUnit = action.payload;
+    },
+
+    // Replace preferences with the ones another tab saved
+    // (fields missing from older persisted state keep their defaults)
+    preferencesSynced(_state, action: PayloadAction<Partial<PreferencesState>>) {
+      return { ...initialState, ...action.payload };
+    },
+  },
+});
+
+export const { viewModeChanged, distanceUnitChanged, preferencesSynced } = preferencesSlice.actions;
+
+// Selectors
+export const selectPreferences = (state: RootState) => state.preferences;
+
+export default preferencesSlice.reducer;
@@ -0,0 +1,224 @@
+/**
+ * Saved Events Slice
+ *
+ * The single source of truth for the user's saved/bookmarked events.
+ * Each entry is a snapshot of the event plus the provider it came from and
+ * when it was saved, so My Events can render without waiting for the API.
+ *
+ * The event's status when it was saved is kept too, so My Events can flag
+ * events that have since been cancelled or postponed.
+ *
+ * Saved events can also be organized into named collections, tagged and
+ * given a private note.
+ *
+ * The slice is persisted to localStorage with redux-persist (see store.ts).
+ */
+
+import { createSelector, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { Event, EventCollection, SavedEvent } from "@/types/event";
+import { normalizeNote, normalizeTags } from "@/utils/tags";
+import type { RootState } from "../store";
+
+export interface SavedEventsState {
+  events: SavedEvent[]; // oldest first
+  collections: EventCollection[]; // in the order they were created
+}
+
+const initialState: SavedEventsState = {
+  events: [],
+  collections: [],
+};
+
+/**
+ * Generate an ID for a new collection
+ */
+function createCollectionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const savedEventsSlice = createSlice({
+  name: "savedEvents",
+  initialState,
+  reducers: {
+    // Save an event (ignored if it's already saved)
+    eventSaved: {
+      reducer(state, action: PayloadAction<SavedEvent>) {
+        if (!state.events.some((saved) => saved.id === action.payload.id)) {
+          state.events.push(action.payload);
+        }
+      },
+      prepare(event: Event) {
+        return {
+          payload: {
+            id: event.id,
+            event,
+            provider: event.provider || "unknown",
+            savedAt: new Date().toISOString(),
+            savedStatus: event.status || "active",
+          },
+        };
+      },
+    },
+
+    // Add saved events (and the collections they belong to) from an import,
+    // skipping any that already exist
+    savedEventsImported(state, action: PayloadAction<{ events: SavedEvent[]; collections: EventCollection[] }>) {
+      const existingCollections = new Set(state.collections.map((collection) => collection.id));
+      state.collections.push(
+        ...action.payload.collections.filter((collection) => !existingCollections.has(collection.id))
+      );
+      const existing = new Set(state.events.map((saved) => saved.id));
+      state.events.push(...action.payload.events.filter((saved) => !existing.has(saved.id)));
+    },
+
+    // Remove one or more saved events
+    savedEventsRemoved(state, action: PayloadAction<string[]>) {
+      const removed = new Set(action.payload);
+      state.events = state.events.filter((saved) => !removed.has(saved.id));
+    },
+
+    // Replace the snapshots of saved events with fresh copies from the API
+    // Events that aren't saved are ignored
+    savedEventSnapshotsUpdated: {
+      reducer(state, action: PayloadAction<{ events: Event[]; refreshedAt: string }>) {
+        const byId = new Map(action.payload.events.map((event) => [event.id, event]));
+        state.events.forEach((saved) => {
+          const event = byId.get(saved.id);
+          if (event) {
+            // Entries saved before statuses were tracked start from their old snapshot
+            if (saved.savedStatus === undefined) {
+              saved.savedStatus = (saved.event || event).status || "active";
+            }
+            saved.event = event;
+            saved.provider = event.provider || saved.provider;
+            saved.refreshedAt = action.payload.refreshedAt;
+          }
+        });
+      },
+      prepare(events: Event[]) {
+        return { payload: { events, refreshedAt: new Date().toISOString() } };
+      },
+    },
+
+    // Accept the current status of saved events, clearing their "status changed" flag
+    savedEventStatusAcknowledged(state, action: PayloadAction<string[]>) {
+      const ids = new Set(action.payload);
+      state.events.forEach((saved) => {
+        if (ids.has(saved.id) && saved.event) {
+          saved.savedStatus = saved.event.status || "active";
+        }
+      });
+    },
+
+    // Replace all saved events and collections with the ones another tab saved
+    savedEventsSynced(state, action: PayloadAction<SavedEventsState>) {
+      state.events = action.payload.events;
+      state.collections = action.payload.collections;
+    },
+
+    // Clear all saved events (collections are kept)
+    savedEventsCleared(state) {
+      state.events = [];
+    },
+
+    // Replace the tags on a saved event
+    savedEventTagsUpdated(state, action: PayloadAction<{ eventId: string; tags: string[] }>) {
+      const saved = state.events.find((entry) => entry.id === action.payload.eventId);
+      if (saved) {
+        saved.tags = normalizeTags(action.payload.tags);
+      }
+    },
+
+    // Replace the private note on a saved event (an empty note removes it)
+    savedEventNoteUpdated(state, action: PayloadAction<{ eventId: string; note: string }>) {
+      const saved = state.events.find((entry) => entry.id === action.payload.eventId);
+      if (saved) {
+        saved.note = normalizeNote(action.payload.note);
+      }
+    },
+
+    // Create a new, empty collection
+    collectionCreated: {
+      reducer(state, action: PayloadAction<EventCollection>) {
+        state.collections.push(action.payload);
+      },
+      prepare(name: string) {
+        return {
+          payload: {
+            id: createCollectionId(),
+            name: name.trim(),
+            createdAt: new Date().toISOString(),
+          },
+        };
+      },
+    },
+
+    // Rename a collection
+    collectionRenamed(state, action: PayloadAction<{ collectionId: string; name: string }>) {
+      const collection = state.collections.find((entry) => entry.id === action.payload.collectionId);
+      const name = action.payload.name.trim();
+      if (collection && name) {
+        collection.name = name;
+      }
+    },
+
+    // Delete a collection; its events stay saved
+    collectionDeleted(state, action: PayloadAction<string>) {
+      state.collections = state.collections.filter((entry) => entry.id !== action.payload);
+      state.events.forEach((saved) => {
+        saved.collectionIds = saved.collectionIds?.filter((id) => id !== action.payload);
+      });
+    },
+
+    // Add a saved event to a collection, or remove it if it's already there
+    savedEventCollectionToggled(state, action: PayloadAction<{ eventId: string; collectionId: string }>) {
+      const { eventId, collectionId } = action.payload;
+      const saved = state.events.find((entry) => entry.id === eventId);
+      if (!saved || !state.collections.some((entry) => entry.id === collectionId)) {
+        return;
+      }
+      const ids = saved.collectionIds || [];
+      saved.collectionIds = ids.includes(collectionId)
+        ? ids.filter((id) => id !== collectionId)
+        : [...ids, collectionId];
+    },
+  },
+});
+
+export const {
+  eventSaved,
+  savedEventsImported,
+  savedEventsRemoved,
+  savedEventSnapshotsUpdated,
+  savedEventStatusAcknowledged,
+  savedEventsSynced,
+  savedEventsCleared,
+  savedEventTagsUpdated,
+  savedEventNoteUpdated,
+  collectionCreated,
+  collectionRenamed,
+  collectionDeleted,
+  savedEventCollectionToggled,
+} = savedEventsSlice.actions;
+
+/**
+ * Remove a single saved event
+ */
+export const savedEventRemoved = (eventId: string) => savedEventsRemoved([eventId]);
+
+// Selectors
+export const selectSavedEvents = (state: RootState) => state.savedEvents.events;
+
+export const selectIsEventSaved = (state: RootState, eventId: string) =>
+  state.savedEvents.events.some((saved) => saved.id === eventId);
+
+export const selectCollections = (state: RootState) => state.savedEvents.collections;
+
+/**
+ * Every tag used on a saved event, sorted alphabetically
+ */
+export const selectSavedEventTags = createSelector([selectSavedEvents], (events) =>
+  Array.from(new Set(events.flatMap((saved) => saved.tags || []))).sort()
+);
+
+export default savedEventsSlice.reducer;
@@ -0,0 +1,131 @@
+/**
+ * Search Slice
+ *
+ * Discover's current filters and search results. Keeping them in the
+ * store means results survive navigating to an event and back.
+ *
+ * Persisted with redux-persist, so a reload or a new visit can show the
+ * last search straight away. Results are only kept for a short while
+ * (see SEARCH_RESULTS_TTL_MS); after that just the filters are restored
+ * and the search runs again.
+ */
+
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { Event, EventFilters, EventSearchPage } from "@/types/event";
+import type { Coordinates } from "./locationSlice";
+import type { RootState } from "../store";
+
+// How long persisted results are shown before searching again
+export const SEARCH_RESULTS_TTL_MS = 15 * 60 * 1000;
+
+// Larger result sets (many pages scrolled) aren't worth the localStorage space
+const MAX_PERSISTED_EVENTS = 200;
+
+export interface SearchState {
+  filters: EventFilters; // filters the user chose for the current results
+  activeFilters: EventFilters; // filters actually searched with (including the user's location)
+  events: Event[];
+  firstPageEventIds: string[]; // events on the first page, the window saved searches compare
+  count: number;
+  filteredAfterFetch: boolean; // count is the total before filtering, not the number of matches
+  cursor?: string; // cursor for the next page, undefined when there are no more
+  unsupportedFilters: Array<keyof EventFilters>;
+  origin: Coordinates | null; // point the results were searched around, for distances
+  searchedAt?: string; // ISO 8601, when the first page of results was fetched
+}
+
+const initialState: SearchState = {
+  filters: {},
+  activeFilters: {},
+  events: [],
+  firstPageEventIds: [],
+  count: 0,
+  filteredAfterFetch: false,
+  cursor: undefined,
+  unsupportedFilters: [],
+  origin: null,
+};
+
+const searchSlice = createSlice({
+  name: "search",
+  initialState,
+  reducers: {
+    // First page of results for a new search
+    searchCompleted: {
+      reducer(
+        state,
+        action: PayloadAction<{
+          filters: EventFilters;
+          activeFilters: EventFilters;
+          page: EventSearchPage;
+          searchedAt: string;
+        }>
+      ) {
+        const { filters, activeFilters, page, searchedAt } = action.payload;
+        state.filters = filters;
+        state.activeFilters = activeFilters;
+        state.events = page.events;
+        state.firstPageEventIds = page.events.map((event) => event.id);
+        state.count = page.count;
+        state.filteredAfterFetch = !!page.filteredAfterFetch;
+        state.cursor = page.cursor;
+        state.unsupportedFilters = page.unsupportedFilters || [];
+        state.origin = page.origin || null;
+        state.searchedAt = searchedAt;
+      },
+      prepare(payload: { filters: EventFilters; activeFilters: EventFilters; page: EventSearchPage }) {
+        return { payload: { ...payload, searchedAt: new Date().toISOString() } };
+      },
+    },
+
+    // Another page of results for the current search
+    pageLoaded(state, action: PayloadAction<EventSearchPage>) {
+      const page = action.payload;
+      // PredictHQ pages can overlap if new events were added between requests
+      const seen = new Set(state.events.map((event) => event.id));
+      state.events.push(...page.events.filter((event) => !seen.has(event.id)));
+      state.count = page.count;
+      state.cursor = page.cursor;
+    },
+
+    // Drop results, e.g. when all filters are cleared
+    resultsCleared(state) {
+      state.filters = {};
+      state.activeFilters = {};
+      state.events = [];
+      state.firstPageEventIds = [];
+      state.count = 0;
+      state.filteredAfterFetch = false;
+      state.cursor = undefined;
+      state.unsupportedFilters = [];
+      state.origin = null;
+      state.searchedAt = undefined;
+    },
+  },
+});
+
+export const { searchCompleted, pageLoaded, resultsCleared } = searchSlice.actions;
+
+/**
+ * Prepare search state for localStorage, leaving out very large result sets
+ */
+export function toPersistedSearch(state: SearchState): SearchState {
+  return state.events.length > MAX_PERSISTED_EVENTS ? { ...initialState, filters: state.filters } : state;
+}
+
+/**
+ * Drop persisted results older than SEARCH_RESULTS_TTL_MS, keeping the filters,
+ * so a stale search runs again
+ */
+export function fromPersistedSearch(state: SearchState): SearchState {
+  const searchedAt = state.searchedAt ? new Date(state.searchedAt).getTime() : NaN;
+  if (Date.now() - searchedAt < SEARCH_RESULTS_TTL_MS) {
+    return state;
+  }
+  return { ...initialState, filters: state.filters || {} };
+}
+
+// Selectors
+export const selectSearch = (state: RootState) => state.search;
+
+export default searchSlice.reducer;
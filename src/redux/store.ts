@@ -1,22 +1,142 @@
 /**
  * Redux Store
- * 
- * Simplified Redux store for NearNow application.
- * Currently minimal as we don't need auth or dashboard state.
- * Can be extended in the future if needed.
+ *
+ * Shared app state:
+ * - savedEvents: the user's saved events (single source of truth for EventCard,
+ *   the event detail page and My Events)
+ * - search: Discover's filters and results
+ * - location: the user's current location
+ * - preferences: settings such as list/map view
+ *
+ * Everything is persisted to localStorage with redux-persist; search results
+ * only stay fresh for a short while (see searchSlice.ts).
+ * Saved events from before the store existed are migrated in on first load,
+ * and changes made in other tabs are synced in by crossTabSync.ts.
  */
 
-import { configureStore } from "@reduxjs/toolkit";
+import { combineReducers, configureStore } from "@reduxjs/toolkit";
+import {
+  persistReducer,
+  persistStore,
+  FLUSH,
+  REHYDRATE,
+  PAUSE,
+  PERSIST,
+  PURGE,
+  REGISTER,
+  PersistedState,
+  createTransform,
+} from "redux-persist";
+import createWebStorage from "redux-persist/lib/storage/createWebStorage";
+import autoMergeLevel2 from "redux-persist/lib/stateReconciler/autoMergeLevel2";
+import savedEventsReducer, { SavedEventsState } from "./slices/savedEventsSlice";
+import searchReducer, { fromPersistedSearch, SearchState, toPersistedSearch } from "./slices/searchSlice";
+import locationReducer from "./slices/locationSlice";
+import preferencesReducer from "./slices/preferencesSlice";
+import { readLegacySavedEvents } from "@/services/localStorage";
 
-// Create a minimal store (no reducers needed for now)
-// If you need to add state management in the future, add reducers here
-const store = configureStore({
-  reducer: {
-    // Add reducers here in the future if needed
+const PERSIST_KEY = "nearnow";
+// Version 2 added collections to saved events
+const PERSIST_VERSION = 2;
+
+// localStorage key redux-persist writes to
+export const PERSIST_STORAGE_KEY = `persist:${PERSIST_KEY}`;
+
+/**
+ * localStorage in the browser; a no-op storage while rendering on the server
+ */
+function createStorage() {
+  if (typeof window !== "undefined") {
+    return createWebStorage("local");
+  }
+  return {
+    getItem: (_key: string) => Promise.resolve(null),
+    setItem: (_key: string, value: string) => Promise.resolve(value),
+    removeItem: (_key: string) => Promise.resolve(),
+  };
+}
+
+/**
+ * Seed a first-time store with saved events from the old localStorage service,
+ * and bring state persisted by older versions up to date
+ */
+function migrate(state: PersistedState): Promise<PersistedState> {
+  if (typeof window === "undefined") {
+    return Promise.resolve(state);
+  }
+
+  if (!state) {
+    const events = readLegacySavedEvents();
+    if (events.length === 0) {
+      return Promise.resolve(state);
+    }
+    return Promise.resolve({
+      savedEvents: { events, collections: [] },
+      _persist: { version: PERSIST_VERSION, rehydrated: false },
+    } as PersistedState);
+  }
+
+  // Version 1 had no collections
+  const persisted = state as PersistedState & { savedEvents?: Partial<SavedEventsState> };
+  if (persisted.savedEvents && !Array.isArray(persisted.savedEvents.collections)) {
+    return Promise.resolve({
+      ...persisted,
+      savedEvents: { ...persisted.savedEvents, collections: [] },
+    } as PersistedState);
+  }
+  return Promise.resolve(state);
+}
+
+// Keeps the persisted search small and drops its results once they're stale
+const searchTransform = createTransform<SearchState, SearchState>(
+  (state) => toPersistedSearch(state),
+  (state) => fromPersistedSearch(state),
+  { whitelist: ["search"] }
+);
+
+const rootReducer = combineReducers({
+  savedEvents: savedEventsReducer,
+  search: searchReducer,
+  location: locationReducer,
+  preferences: preferencesReducer,
+});
+
+const persistedReducer = persistReducer<ReturnType<typeof rootReducer>>(
+  {
+    key: PERSIST_KEY,
+    version: PERSIST_VERSION,
+    storage: createStorage(),
+    whitelist: ["savedEvents", "search", "location", "preferences"],
+    transforms: [searchTransform],
+    // Merge into each slice's initial state, so fields added to a slice later
+    // (e.g. new preferences) get their defaults
+    stateReconciler: autoMergeLevel2,
+    migrate,
   },
+  rootReducer
+);
+
+const store = configureStore({
+  reducer: persistedReducer,
+  middleware: (getDefaultMiddleware) =>
+    getDefaultMiddleware({
+      serializableCheck: {
+        // redux-persist's own actions carry functions
+        ignoredActions: [FLUSH, REHYDRATE, PAUSE, PERSIST, PURGE, REGISTER],
+      },
+    }),
 });
 
+const persistor = persistStore(store);
+
+export type AppStore = typeof store;
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
 
-export { store };
+/**
+ * Whether persisted state has been loaded from localStorage yet
+ * Until then, slices hold their initial (empty) state
+ */
+export const selectIsRehydrated = (state: RootState) => state._persist?.rehydrated ?? false;
+
+export { store, persistor };
@@ -1,37 +1,158 @@
 /**
  * Event Cache Service
- * 
- * Simple in-memory cache for events to avoid unnecessary API calls.
+ *
+ * Client-side cache for events to avoid unnecessary API calls.
  * When events are fetched from search, they're stored here.
  * The detail page checks this cache first before making an API call.
+ *
+ * - Entries expire after a configurable TTL
+ * - The cache is bounded; the least recently used entries are evicted first
+ * - Entries are persisted to sessionStorage so back/forward navigation and
+ *   reloads can show data instantly
  */
 
 import { Event } from "@/types/event";
 
-// In-memory cache: eventId -> Event
-const eventCache = new Map<string, Event>();
+const CACHE_STORAGE_KEY = "nearnow_event_cache";
+
+interface CacheEntry {
+  event: Event;
+  cachedAt: number; // epoch milliseconds
+}
+
+export interface EventCacheOptions {
+  ttlMs: number; // how long an entry stays fresh
+  maxEntries: number; // how many entries to keep before evicting
+}
+
+let options: EventCacheOptions = {
+  ttlMs: 10 * 60 * 1000, // 10 minutes
+  maxEntries: 200,
+};
+
+// In-memory cache: eventId -> entry
+// Map keeps insertion order, so the first key is always the least recently used
+const eventCache = new Map<string, CacheEntry>();
+let hydrated = false;
+
+/**
+ * Load persisted entries from sessionStorage the first time the cache is used
+ */
+function hydrate(): void {
+  if (hydrated || typeof window === "undefined") {
+    return;
+  }
+  hydrated = true;
+
+  try {
+    const saved = sessionStorage.getItem(CACHE_STORAGE_KEY);
+    if (!saved) {
+      return;
+    }
+    const entries: [string, CacheEntry][] = JSON.parse(saved);
+    entries.forEach(([eventId, entry]) => {
+      if (!isExpired(entry)) {
+        eventCache.set(eventId, entry);
+      }
+    });
+    evictOverflow();
+  } catch (error) {
+    console.error("Error reading event cache from sessionStorage:", error);
+  }
+}
+
+/**
+ * Write the cache to sessionStorage
+ */
+function persist(): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    sessionStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(Array.from(eventCache.entries())));
+  } catch (error) {
+    // Quota errors shouldn't break the app - the in-memory cache still works
+    console.error("Error writing event cache to sessionStorage:", error);
+  }
+}
+
+/**
+ * Check if an entry is older than the TTL
+ */
+function isExpired(entry: CacheEntry): boolean {
+  return Date.now() - entry.cachedAt > options.ttlMs;
+}
+
+/**
+ * Drop the least recently used entries until the cache fits its bound
+ */
+function evictOverflow(): void {
+  while (eventCache.size > options.maxEntries) {
+    const oldestId = eventCache.keys().next().value as string;
+    eventCache.delete(oldestId);
+  }
+}
+
+/**
+ * Insert or refresh an entry, moving it to the most recently used position
+ */
+function setEntry(event: Event): void {
+  eventCache.delete(event.id);
+  eventCache.set(event.id, { event, cachedAt: Date.now() });
+}
+
+/**
+ * Change the cache TTL and/or size bound
+ */
+export function configureEventCache(newOptions: Partial<EventCacheOptions>): void {
+  hydrate();
+  options = { ...options, ...newOptions };
+  evictOverflow();
+  persist();
+}
 
 /**
  * Store an event in the cache
  */
 export function cacheEvent(event: Event): void {
-  eventCache.set(event.id, event);
+  hydrate();
+  setEntry(event);
+  evictOverflow();
+  persist();
 }
 
 /**
  * Store multiple events in the cache
  */
 export function cacheEvents(events: Event[]): void {
-  events.forEach((event) => {
-    eventCache.set(event.id, event);
-  });
+  hydrate();
+  events.forEach(setEntry);
+  evictOverflow();
+  persist();
 }
 
 /**
  * Get an event from the cache
+ * Returns undefined if the event isn't cached or has expired
  */
 export function getCachedEvent(eventId: string): Event | undefined {
-  return eventCache.get(eventId);
+  hydrate();
+  const entry = eventCache.get(eventId);
+  if (!entry) {
+    return undefined;
+  }
+
+  if (isExpired(entry)) {
+    eventCache.delete(eventId);
+    persist();
+    return undefined;
+  }
+
+  // Mark as most recently used
+  eventCache.delete(eventId);
+  eventCache.set(eventId, entry);
+  return entry.event;
 }
 
 /**
@@ -39,12 +160,14 @@ export function getCachedEvent(eventId: string): Event | undefined {
  */
 export function clearCache(): void {
   eventCache.clear();
+  persist();
 }
 
 /**
  * Remove a specific event from the cache
  */
 export function removeCachedEvent(eventId: string): void {
+  hydrate();
   eventCache.delete(eventId);
+  persist();
 }
-
@@ -0,0 +1,184 @@
+/**
+ * Events API Client
+ *
+ * Client-side service for fetching events through our own /api/events
+ * route handlers. The route handlers talk to PredictHQ on the server,
+ * so the API token is never exposed to the browser.
+ *
+ * Events returned by searches are stored in the event cache, and
+ * getEventById reads through it before making a request.
+ *
+ * Searches accept an AbortSignal so callers can cancel requests that
+ * have been superseded; cancelled requests reject with an AbortError
+ * (see isAbortError) rather than a connection error.
+ */
+
+import { Event, EventBatchResult, EventFilters, EventSearchPage } from "@/types/event";
+import { serializeEventFilters } from "@/utils/eventFilterParams";
+import { cacheEvent, cacheEvents, getCachedEvent } from "@/services/eventCache";
+import { isWellFormedEventId, MAX_BATCH_IDS } from "@/utils/eventIdValidator";
+
+/**
+ * Check if an error came from a request being cancelled with an AbortSignal
+ * These are expected and should never be shown to the user
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Fetch JSON from one of our API routes
+ * Throws an Error with the server's message if the request fails
+ */
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        Accept: "application/json",
+        ...init.headers,
+      },
+    });
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to connect to the events API: ${error.message}. Please check your internet connection.`);
+  }
+
+  if (!response.ok) {
+    let errorMessage = `Events API error: ${response.status} ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      if (errorData.error) {
+        errorMessage = errorData.error;
+      }
+    } catch (e) {
+      // If we can't parse the error, use the status text
+    }
+    throw new Error(errorMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * Search for events based on filters
+ *
+ * @param filters - Search filters (city, date, category, price, etc.)
+ * @returns Promise with array of events
+ */
+export async function searchEvents(filters: EventFilters = {}): Promise<Event[]> {
+  const page = await searchEventsPage(filters);
+  return page.events;
+}
+
+/**
+ * Search for one page of events based on filters
+ *
+ * @param filters - Search filters (city, date, category, price, etc.)
+ * @param cursor - Cursor from a previous page, omit for the first page
+ * @param signal - Optional signal to cancel the request
+ * @returns Promise with the page of events, total count and next cursor
+ */
+export async function searchEventsPage(
+  filters: EventFilters = {},
+  cursor?: string,
+  signal?: AbortSignal
+): Promise<EventSearchPage> {
+  const params = serializeEventFilters(filters);
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  const page = await fetchJson<EventSearchPage>(`/api/events?${params.toString()}`, { signal });
+  cacheEvents(page.events);
+  return page;
+}
+
+/**
+ * Get popular/trending events in a city
+ *
+ * @param city - City name or coordinates
+ * @returns Promise with array of popular events
+ */
+export async function getPopularEvents(city?: string, lat?: number, lon?: number): Promise<Event[]> {
+  const filters: EventFilters = {};
+
+  if (lat && lon) {
+    filters.latitude = lat;
+    filters.longitude = lon;
+    filters.radius = 50; // Wider radius for popular events (50 miles = ~80km)
+  } else if (city) {
+    filters.city = city;
+    // Let the server handle geocoding and determine appropriate radius
+  } else {
+    filters.city = "New York"; // Default city
+  }
+
+  // Get events sorted by rank (most popular first)
+  const events = await searchEvents(filters);
+
+  // Return first 12 events as "popular"
+  return events.slice(0, 12);
+}
+
+/**
+ * Get event details by ID
+ *
+ * @param eventId - Event ID from PredictHQ
+ * @returns Promise with event details
+ */
+export async function getEventById(eventId: string): Promise<Event> {
+  const cached = getCachedEvent(eventId);
+  if (cached) {
+    return cached;
+  }
+
+  const event = await fetchJson<Event>(`/api/events/${encodeURIComponent(eventId)}`);
+  cacheEvent(event);
+  return event;
+}
+
+/**
+ * Get multiple events by their IDs
+ * Useful for "My Events" page. Large lists are split into several requests,
+ * since the batch route accepts a limited number of IDs at a time; if one of
+ * them fails, its IDs are reported as failed and the others still count.
+ *
+ * @param eventIds - Array of event IDs
+ * @returns Promise with the events found plus the IDs that were missing or failed
+ */
+export async function getEventsByIds(eventIds: string[]): Promise<EventBatchResult> {
+  if (eventIds.length === 0) {
+    return { events: [], notFound: [], failed: [] };
+  }
+
+  // The route rejects the whole request over a malformed ID, so report those up front
+  const lookupIds = eventIds.filter(isWellFormedEventId);
+  const result: EventBatchResult = {
+    events: [],
+    notFound: eventIds.filter((id) => !isWellFormedEventId(id)),
+    failed: [],
+  };
+  for (let start = 0; start < lookupIds.length; start += MAX_BATCH_IDS) {
+    const chunkIds = lookupIds.slice(start, start + MAX_BATCH_IDS);
+    try {
+      const chunk = await fetchJson<EventBatchResult>("/api/events/batch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ids: chunkIds }),
+      });
+      result.events.push(...chunk.events);
+      result.notFound.push(...chunk.notFound);
+      result.failed.push(...chunk.failed);
+    } catch (error) {
+      console.error("Error loading a batch of events:", error);
+      result.failed.push(...chunkIds);
+    }
+  }
+  cacheEvents(result.events);
+  return result;
+}
@@ -0,0 +1,333 @@
+/**
+ * Geocoding Service
+ *
+ * Turns a place name ("Lagos", "Nigeria", "Brooklyn") into coordinates,
+ * a place type and a sensible search radius.
+ * Uses OpenStreetMap Nominatim API (free, no API key required).
+ *
+ * Nominatim's usage policy allows at most 1 request per second, so:
+ * - results are cached (in memory and on disk, so they survive restarts)
+ * - concurrent lookups for the same place share one request
+ * - requests go through a queue that spaces them at least 1 second apart
+ *
+ * The cache is keyed by whatever place name callers send, so it is bounded:
+ * the least recently used places are evicted first, "no match" results
+ * expire after an hour and are never written to disk, and disk writes are
+ * coalesced so only one runs at a time.
+ *
+ * Runs on the server only (called from the PredictHQ service).
+ *
+ * Usage Policy: https://operations.osmfoundation.org/policies/nominatim/
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { haversineDistanceMiles } from "@/utils/distance";
+
+const NOMINATIM_SEARCH_URL = "https://nominatim.openstreetmap.org/search";
+
+// Minimum gap between Nominatim requests (1 request per second)
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+// Keep cached results for 30 days; places rarely move
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Places with no match may just be typos, or get added to OpenStreetMap later
+const NOT_FOUND_TTL_MS = 60 * 60 * 1000;
+
+// Most places to keep before evicting the least recently used
+const MAX_CACHE_ENTRIES = 2000;
+
+// Next.js already keeps its own caches under .next/cache
+const CACHE_FILE =
+  process.env.GEOCODE_CACHE_PATH || path.join(process.cwd(), ".next", "cache", "geocoding.json");
+
+// Search radius bounds in miles
+const MIN_RADIUS_MILES = 5;
+const MAX_RADIUS_MILES = 500;
+
+/**
+ * Kind of place a location resolved to
+ */
+export type PlaceKind = "country" | "region" | "city";
+
+/**
+ * Geocoding result used by the rest of the app
+ */
+export interface GeocodeResult {
+  lat: number;
+  lon: number;
+  kind: PlaceKind;
+  radiusMiles: number; // radius that roughly covers the place's bounding box
+  displayName: string;
+}
+
+/**
+ * Geocoding result from Nominatim API
+ */
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  type: string;
+  class?: string;
+  addresstype?: string;
+  importance: number;
+  boundingbox?: [string, string, string, string]; // [south, north, west, east]
+}
+
+interface CacheEntry {
+  result: GeocodeResult | null; // null = Nominatim had no match
+  cachedAt: number;
+}
+
+// Nominatim address types for each kind of place (anything else is treated as a city)
+const COUNTRY_TYPES = ["country"];
+const REGION_TYPES = ["state", "region", "province", "state_district", "county", "district", "territory"];
+
+// Map keeps insertion order, so the first key is always the least recently used
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<GeocodeResult | null>>();
+let cacheLoaded: Promise<void> | null = null;
+let cacheWrite: Promise<void> | null = null;
+let cacheWriteRequested = false;
+let queue: Promise<unknown> = Promise.resolve();
+let lastRequestAt = 0;
+
+/**
+ * Normalize a location so "Lagos", " lagos " and "LAGOS" share a cache entry
+ */
+function cacheKey(location: string): string {
+  return location.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Check if a cache entry is older than its TTL
+ */
+function isExpired(entry: CacheEntry): boolean {
+  const ttl = entry.result ? CACHE_TTL_MS : NOT_FOUND_TTL_MS;
+  return Date.now() - entry.cachedAt >= ttl;
+}
+
+/**
+ * Drop the least recently used entries until the cache fits its bound
+ */
+function evictOverflow(): void {
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    const oldestKey = cache.keys().next().value as string;
+    cache.delete(oldestKey);
+  }
+}
+
+/**
+ * Load the on-disk cache once per server process
+ */
+function loadCache(): Promise<void> {
+  if (!cacheLoaded) {
+    cacheLoaded = fs
+      .readFile(CACHE_FILE, "utf-8")
+      .then((contents) => {
+        const entries: Record<string, CacheEntry> = JSON.parse(contents);
+        Object.entries(entries).forEach(([key, entry]) => {
+          if (entry?.result && typeof entry.cachedAt === "number" && !isExpired(entry)) {
+            cache.set(key, entry);
+          }
+        });
+        evictOverflow();
+      })
+      .catch(() => {
+        // No cache file yet (or it's unreadable) - start empty
+      });
+  }
+  return cacheLoaded;
+}
+
+/**
+ * Write the cache to disk, leaving out "no match" results
+ * Writes to a temporary file first, so a crash never leaves a half-written cache
+ */
+async function writeCacheFile(): Promise<void> {
+  try {
+    const found = Array.from(cache.entries()).filter(([, entry]) => entry.result);
+    const tempFile = `${CACHE_FILE}.tmp`;
+    await fs.mkdir(path.dirname(CACHE_FILE), { recursive: true });
+    await fs.writeFile(tempFile, JSON.stringify(Object.fromEntries(found)));
+    await fs.rename(tempFile, CACHE_FILE);
+  } catch (error) {
+    // The in-memory cache still works if the disk isn't writable
+    console.warn("Could not write geocoding cache:", error);
+  }
+}
+
+/**
+ * Save the cache to disk
+ * Only one write runs at a time; changes made during a write are saved
+ * together by a single follow-up write
+ */
+function saveCache(): void {
+  cacheWriteRequested = true;
+  if (cacheWrite) {
+    return;
+  }
+
+  cacheWrite = (async () => {
+    while (cacheWriteRequested) {
+      cacheWriteRequested = false;
+      await writeCacheFile();
+    }
+  })().finally(() => {
+    cacheWrite = null;
+  });
+}
+
+/**
+ * Run a request through the rate-limited queue
+ * Each task starts at least MIN_REQUEST_INTERVAL_MS after the previous one
+ */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = async () => {
+    const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    lastRequestAt = Date.now();
+    return task();
+  };
+
+  const result = queue.then(run, run);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Classify a Nominatim result as a country, region or city
+ */
+function classify(result: NominatimResult): PlaceKind {
+  const type = result.addresstype || result.type;
+  if (COUNTRY_TYPES.includes(type)) {
+    return "country";
+  }
+  if (REGION_TYPES.includes(type)) {
+    return "region";
+  }
+  return "city";
+}
+
+/**
+ * Get a search radius that covers the result's bounding box
+ * Uses the distance from the center to the furthest corner
+ */
+function radiusFromBoundingBox(result: NominatimResult, lat: number, lon: number, kind: PlaceKind): number {
+  const box = result.boundingbox?.map(parseFloat);
+  if (!box || box.length !== 4 || box.some(isNaN)) {
+    // No usable bounding box - fall back to a rough size per kind
+    return kind === "country" ? 300 : kind === "region" ? 100 : 30;
+  }
+
+  const [south, north, west, east] = box;
+  const radius = Math.max(
+    haversineDistanceMiles(lat, lon, south, west),
+    haversineDistanceMiles(lat, lon, south, east),
+    haversineDistanceMiles(lat, lon, north, west),
+    haversineDistanceMiles(lat, lon, north, east)
+  );
+
+  return Math.round(Math.min(Math.max(radius, MIN_RADIUS_MILES), MAX_RADIUS_MILES));
+}
+
+/**
+ * Call Nominatim for a location
+ * Returns null when there is no match; throws on network/server errors
+ */
+async function fetchFromNominatim(location: string): Promise<GeocodeResult | null> {
+  const params = new URLSearchParams({
+    q: location,
+    format: "jsonv2",
+    limit: "1",
+  });
+
+  const response = await fetch(`${NOMINATIM_SEARCH_URL}?${params.toString()}`, {
+    headers: {
+      "User-Agent": "EventManagementApp/1.0", // Required by Nominatim
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Nominatim responded with ${response.status} ${response.statusText}`);
+  }
+
+  const results: NominatimResult[] = await response.json();
+  if (!results || results.length === 0) {
+    return null;
+  }
+
+  const result = results[0];
+  const lat = parseFloat(result.lat);
+  const lon = parseFloat(result.lon);
+  if (isNaN(lat) || isNaN(lon)) {
+    return null;
+  }
+
+  const kind = classify(result);
+  return {
+    lat,
+    lon,
+    kind,
+    radiusMiles: radiusFromBoundingBox(result, lat, lon, kind),
+    displayName: result.display_name,
+  };
+}
+
+/**
+ * Geocode a city, region or country name
+ *
+ * @param location - Place name (e.g., "Lagos", "Nigeria")
+ * @returns Promise with the geocoded place, or null if geocoding fails
+ */
+export async function geocodeLocation(location: string): Promise<GeocodeResult | null> {
+  const key = cacheKey(location);
+  if (!key) {
+    return null;
+  }
+
+  await loadCache();
+
+  const cached = cache.get(key);
+  if (cached) {
+    cache.delete(key);
+    if (!isExpired(cached)) {
+      // Mark as most recently used
+      cache.set(key, cached);
+      return cached.result;
+    }
+  }
+
+  // Share the request if this place is already being looked up
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const request = enqueue(() => fetchFromNominatim(location))
+    .then((result) => {
+      cache.set(key, { result, cachedAt: Date.now() });
+      evictOverflow();
+      if (result) {
+        saveCache();
+      } else {
+        console.warn(`No geocoding results found for "${location}"`);
+      }
+      return result;
+    })
+    .catch((error) => {
+      // Don't cache failures - the next search should try again
+      console.warn(`Geocoding failed for "${location}":`, error.message);
+      return null;
+    })
+    .finally(() => {
+      inFlight.delete(key);
+    });
+
+  inFlight.set(key, request);
+  return request;
+}
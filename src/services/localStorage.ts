@@ -1,99 +1,66 @@
 /**
  * LocalStorage Service for NearNow
- * 
- * This service handles saving and retrieving saved events from localStorage.
- * We use localStorage to persist user's saved events across browser sessions.
- * 
- * In the future, this could be replaced with a database or cloud storage.
+ *
+ * Reads saved events written before they moved into the Redux store
+ * (see redux/slices/savedEventsSlice.ts), so they can be migrated into
+ * it the first time the store is loaded.
+ *
+ * The legacy data is versioned:
+ * - v1: a bare array of event IDs
+ * - v2: { version: 2, events: SavedEvent[] }
  */
 
+import { SavedEvent } from "@/types/event";
+
 const SAVED_EVENTS_KEY = "nearnow_saved_events";
+const SAVED_EVENTS_VERSION = 2;
 
 /**
- * Get all saved event IDs from localStorage
- * 
- * @returns Array of event IDs
+ * Shape of the data stored under SAVED_EVENTS_KEY
  */
-export function getSavedEventIds(): string[] {
-  if (typeof window === "undefined") {
-    return [];
-  }
-  
-  try {
-    const saved = localStorage.getItem(SAVED_EVENTS_KEY);
-    if (!saved) {
-      return [];
-    }
-    return JSON.parse(saved);
-  } catch (error) {
-    console.error("Error reading saved events from localStorage:", error);
-    return [];
-  }
+interface SavedEventsStore {
+  version: number;
+  events: SavedEvent[];
 }
 
 /**
- * Save an event ID to localStorage
- * 
- * @param eventId - Event ID to save
+ * Upgrade stored data from any previous version to the current one
+ *
+ * @param raw - Parsed contents of localStorage
+ * @returns Saved events in the current format
  */
-export function saveEventId(eventId: string): void {
-  if (typeof window === "undefined") {
-    return;
+function migrateSavedEvents(raw: unknown): SavedEvent[] {
+  // v1: bare array of IDs, no snapshots - My Events refreshes them from the API
+  if (Array.isArray(raw)) {
+    const migratedAt = new Date().toISOString();
+    return raw
+      .filter((id): id is string => typeof id === "string")
+      .map((id) => ({ id, provider: "unknown", savedAt: migratedAt }));
   }
-  
-  try {
-    const saved = getSavedEventIds();
-    if (!saved.includes(eventId)) {
-      saved.push(eventId);
-      localStorage.setItem(SAVED_EVENTS_KEY, JSON.stringify(saved));
-    }
-  } catch (error) {
-    console.error("Error saving event to localStorage:", error);
-  }
-}
 
-/**
- * Remove an event ID from localStorage
- * 
- * @param eventId - Event ID to remove
- */
-export function removeEventId(eventId: string): void {
-  if (typeof window === "undefined") {
-    return;
-  }
-  
-  try {
-    const saved = getSavedEventIds();
-    const filtered = saved.filter((id) => id !== eventId);
-    localStorage.setItem(SAVED_EVENTS_KEY, JSON.stringify(filtered));
-  } catch (error) {
-    console.error("Error removing event from localStorage:", error);
+  if (raw && typeof raw === "object" && (raw as SavedEventsStore).version === SAVED_EVENTS_VERSION) {
+    return (raw as SavedEventsStore).events;
   }
-}
 
-/**
- * Check if an event is saved
- * 
- * @param eventId - Event ID to check
- * @returns True if event is saved, false otherwise
- */
-export function isEventSaved(eventId: string): boolean {
-  const saved = getSavedEventIds();
-  return saved.includes(eventId);
+  console.warn("Unrecognized saved events format in localStorage, starting fresh.");
+  return [];
 }
 
 /**
- * Clear all saved events
+ * Read saved events from the legacy localStorage key
+ *
+ * @returns Saved events, oldest first (empty if there are none)
  */
-export function clearSavedEvents(): void {
+export function readLegacySavedEvents(): SavedEvent[] {
   if (typeof window === "undefined") {
-    return;
+    return [];
   }
-  
+
   try {
-    localStorage.removeItem(SAVED_EVENTS_KEY);
+    const saved = localStorage.getItem(SAVED_EVENTS_KEY);
+    return saved ? migrateSavedEvents(JSON.parse(saved)) : [];
   } catch (error) {
-    console.error("Error clearing saved events:", error);
+    console.error("Error reading saved events from localStorage:", error);
+    return [];
   }
 }
-
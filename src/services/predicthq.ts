@@ -4,30 +4,58 @@
  * PredictHQ provides comprehensive event data including local community events,
  * concerts, sports, conferences, and more. Perfect for local event discovery!
  * 
+ * This module runs on the server only (see src/app/api/events). The API token
+ * is read from a non-public environment variable so it never reaches the browser.
+ * Client components should use services/eventsApi.ts instead.
+ * 
  * API Documentation: https://docs.predicthq.com/
  * Get API Token: https://www.predicthq.com/
  */
 
-import { Event, EventFilters } from "@/types/event";
+import {
+  Event,
+  EventBatchResult,
+  EventFilters,
+  EventInsights,
+  EventSearchPage,
+  EventSort,
+  EventStatus,
+} from "@/types/event";
+import { EventProviderError } from "@/services/providers/types";
+import { encodeCursor, decodeCursor } from "@/services/providers/cursor";
+import { geocodeLocation } from "@/services/geocoding";
+import { DEFAULT_SEARCH_STATUSES, EVENT_STATUSES } from "@/utils/eventStatus";
+import { hasInsights } from "@/utils/insights";
 
 // PredictHQ API Configuration
-// Get API base URL and token from environment variables
-const PREDICTHQ_API_BASE = process.env.NEXT_PUBLIC_PREDICTHQ_API_BASE;
-const PREDICTHQ_API_TOKEN = process.env.NEXT_PUBLIC_PREDICTHQ_API_TOKEN || "";
+// Get API base URL and token from server-side environment variables
+const PREDICTHQ_API_BASE = process.env.PREDICTHQ_API_BASE;
+const PREDICTHQ_API_TOKEN = process.env.PREDICTHQ_API_TOKEN || "";
 
 // Validate that token and base URL are set
 if (!PREDICTHQ_API_TOKEN) {
   console.warn(
-    "WARNING: PREDICTHQ_API_TOKEN is not set. Please add NEXT_PUBLIC_PREDICTHQ_API_TOKEN to your .env.local file."
+    "WARNING: PREDICTHQ_API_TOKEN is not set. Please add PREDICTHQ_API_TOKEN to your .env.local file."
   );
 }
 
 if (!PREDICTHQ_API_BASE) {
   console.warn(
-    "WARNING: PREDICTHQ_API_BASE is not set. Please add NEXT_PUBLIC_PREDICTHQ_API_BASE to your .env.local file."
+    "WARNING: PREDICTHQ_API_BASE is not set. Please add PREDICTHQ_API_BASE to your .env.local file."
   );
 }
 
+/**
+ * Error thrown by the PredictHQ service
+ * Carries the HTTP status our API routes should respond with
+ */
+export class PredictHQError extends EventProviderError {
+  constructor(message: string, status: number = 500) {
+    super(message, status);
+    this.name = "PredictHQError";
+  }
+}
+
 /**
  * PredictHQ API Event Structure
  */
@@ -67,6 +95,7 @@ interface PredictHQEvent {
   ticket_url?: string;
   external_url?: string;
   phq_attendance?: number;
+  rank?: number; // 0-100
   phq_rank?: number;
   phq_viewing_rank?: number;
   phq_popularity?: number;
@@ -78,7 +107,7 @@ interface PredictHQEvent {
     phq_popularity?: number;
     phq_impact_rank?: number;
   };
-  state: string;
+  state: string; // active, predicted, cancelled, postponed or deleted
   private: boolean;
   scope?: string;
   country?: string;
@@ -91,7 +120,7 @@ interface PredictHQEvent {
   relevance?: number;
   local_rank?: number;
   aviation_rank?: number;
-  phq_labels?: string[];
+  phq_labels?: Array<string | { label: string; weight?: number }>; // objects with weights in current API versions
   predicted_event_spend?: number;
   predicted_event_spend_industries?: Record<string, number>;
   predicted_dwell?: number;
@@ -112,96 +141,67 @@ interface PredictHQResponse {
   results: PredictHQEvent[];
 }
 
+// Every lifecycle state, so lookups by ID still find cancelled or deleted events
+const ALL_STATES = EVENT_STATUSES.map((option) => option.value).join(",");
+
 /**
- * Geocoding result from Nominatim API
+ * Map PredictHQ's state to our status (unknown states are treated as active)
  */
-interface GeocodingResult {
-  lat: string;
-  lon: string;
-  display_name: string;
-  type: string;
-  class?: string;
-  importance: number;
-  address?: {
-    country?: string;
-    country_code?: string;
-  };
+function getStatus(state: string | undefined): EventStatus {
+  const option = EVENT_STATUSES.find((entry) => entry.value === state);
+  return option ? option.value : "active";
 }
 
+// Labels that mark an event as online
+const ONLINE_LABELS = ["online", "virtual", "virtual-event", "webinar", "livestream", "live-stream", "streaming"];
+
 /**
- * Geocode a city or country name to coordinates
- * Uses OpenStreetMap Nominatim API (free, no API key required)
- * 
- * @param location - City or country name (e.g., "Lagos", "Nigeria")
- * @returns Promise with coordinates or null if geocoding fails
+ * Work out whether an event takes place online
+ * PredictHQ has no online flag (`private` means something else entirely), so:
+ * - an event at a venue entity is in person
+ * - otherwise, online labels or having no coordinates at all mean online
+ * Titles aren't used: "Online Retail Summit" at a hotel is still in person
  */
-async function geocodeLocation(location: string): Promise<{ lat: number; lon: number; isCountry: boolean } | null> {
-  try {
-    // Use Nominatim API for geocoding (free, no API key required)
-    const encodedLocation = encodeURIComponent(location);
-    let response: Response;
-    
-    try {
-      response = await fetch(
-        `https://nominatim.openstreetmap.org/search?q=${encodedLocation}&format=json&limit=1&addressdetails=1`,
-        {
-          headers: {
-            'User-Agent': 'EventManagementApp/1.0', // Required by Nominatim
-          },
-          mode: 'cors',
-        }
-      );
-    } catch (error: any) {
-      // Handle network errors (CORS, network failure, etc.)
-      console.warn(`Geocoding network error for "${location}":`, error.message);
-      return null;
-    }
-
-    if (!response.ok) {
-      console.warn(`Geocoding failed for "${location}": ${response.statusText}`);
-      return null;
-    }
-
-    const results: GeocodingResult[] = await response.json();
-
-    if (!results || results.length === 0) {
-      console.warn(`No geocoding results found for "${location}"`);
-      return null;
-    }
-
-    const result = results[0];
-    const lat = parseFloat(result.lat);
-    const lon = parseFloat(result.lon);
-
-    if (isNaN(lat) || isNaN(lon)) {
-      console.warn(`Invalid coordinates from geocoding for "${location}"`);
-      return null;
-    }
+function isOnlineEvent(labels: string[], hasGeo: boolean, hasVenue: boolean): boolean {
+  if (hasVenue) {
+    return false;
+  }
+  const hasOnlineLabel = labels.some((label) => ONLINE_LABELS.includes(label.toLowerCase()));
+  return hasOnlineLabel || !hasGeo;
+}
 
-    // Check if it's a country
-    // Nominatim returns class="place" and type="country" for countries
-    // Also check if the location name matches common country patterns
-    const locationLower = location.toLowerCase();
-    const isCountry = Boolean(
-      (result.class === "place" && result.type === "country") ||
-      result.type === "country" ||
-      (result.importance < 0.3 && !result.type.includes("city") && !result.type.includes("town")) ||
-      locationLower.includes("nigeria") ||
-      locationLower.includes("country") ||
-      (result.address?.country_code && result.address.country && locationLower.includes(result.address.country.toLowerCase()))
-    );
+/**
+ * Normalize phq_labels, which may be plain strings or { label, weight } objects
+ */
+function getPhqLabels(predicthqEvent: PredictHQEvent): Array<{ label: string; weight?: number }> {
+  return (predicthqEvent.phq_labels || [])
+    .map((entry) => (typeof entry === "string" ? { label: entry } : entry))
+    .filter((entry) => typeof entry?.label === "string");
+}
 
-    return { lat, lon, isCountry };
-  } catch (error) {
-    console.error(`Error geocoding location "${location}":`, error);
-    return null;
-  }
+/**
+ * Keep the attendance and impact fields, if there are any
+ */
+function getInsights(
+  predicthqEvent: PredictHQEvent,
+  phqLabels: Array<{ label: string; weight?: number }>
+): EventInsights | undefined {
+  const insights: EventInsights = {
+    attendance: predicthqEvent.phq_attendance ?? predicthqEvent.phq_rankings?.phq_attendance,
+    rank: predicthqEvent.rank ?? predicthqEvent.phq_rank,
+    localRank: predicthqEvent.local_rank,
+    labels: phqLabels.length > 0 ? phqLabels : undefined,
+    predictedSpend: predicthqEvent.predicted_event_spend,
+    durationSeconds: predicthqEvent.duration || undefined,
+  };
+  return hasInsights(insights) ? insights : undefined;
 }
 
 /**
  * Convert PredictHQ event to our simplified Event format
  */
 function transformEvent(predicthqEvent: PredictHQEvent): Event {
+  const phqLabels = getPhqLabels(predicthqEvent);
   const location = predicthqEvent.location?.[0];
   const address = location?.address;
   
@@ -223,6 +223,9 @@ function transformEvent(predicthqEvent: PredictHQEvent): Event {
   const entityWithAddress = predicthqEvent.entities?.find(
     (e) => e.formatted_address
   ) || venueEntity;
+
+  const labels = Array.from(new Set([...phqLabels.map((entry) => entry.label), ...(predicthqEvent.labels || [])]));
+  const isOnline = isOnlineEvent(labels, !!geo, !!venueEntity);
   
   // Get venue name from entity or address
   const venueName = venueEntity?.name || entityWithAddress?.name || address?.name || "Event Venue";
@@ -306,7 +309,8 @@ function transformEvent(predicthqEvent: PredictHQEvent): Event {
     // PredictHQ doesn't provide event images directly, but we can use a placeholder or category-based image
     // For now, we'll leave it undefined and the UI will show a nice gradient placeholder
     imageUrl: undefined,
-    venue: geo || address || venueEntity
+    // Online events have no venue to show, even if PredictHQ gives a nominal location
+    venue: !isOnline && (geo || address || venueEntity)
       ? {
           name: venueName,
           address: addressString,
@@ -317,10 +321,49 @@ function transformEvent(predicthqEvent: PredictHQEvent): Event {
       : undefined,
     price: undefined, // PredictHQ doesn't provide pricing info
     category: predicthqEvent.category,
-    isOnline: predicthqEvent.private || false,
+    labels,
+    isOnline,
+    status: getStatus(predicthqEvent.state),
+    provider: "predicthq",
+    insights: getInsights(predicthqEvent, phqLabels),
   };
 }
 
+// Number of events requested per page
+const PAGE_SIZE = 50;
+
+/**
+ * Get the cursor for the page after this one from PredictHQ's `next` URL
+ */
+function getNextCursor(next?: string): string | undefined {
+  if (!next) {
+    return undefined;
+  }
+  const offset = Number(new URL(next).searchParams.get("offset"));
+  return Number.isInteger(offset) && offset > 0 ? encodeCursor(offset) : undefined;
+}
+
+// PredictHQ sort values for our sort orders
+// "nearest" is applied in the browser, so those results come back most popular first
+const PREDICTHQ_SORTS: Record<EventSort, string> = {
+  popular: "-rank",
+  soonest: "start",
+  attendance: "-phq_attendance",
+  relevance: "relevance",
+  nearest: "-rank",
+};
+
+/**
+ * Get the PredictHQ sort value for the filters' sort order
+ * Relevance needs keywords to rank against, so it falls back to the default without them
+ */
+function getPredictHQSort(filters: EventFilters): string {
+  if (!filters.sort || (filters.sort === "relevance" && !filters.query)) {
+    return PREDICTHQ_SORTS.popular;
+  }
+  return PREDICTHQ_SORTS[filters.sort];
+}
+
 /**
  * Search for events based on filters
  * 
@@ -328,16 +371,28 @@ function transformEvent(predicthqEvent: PredictHQEvent): Event {
  * @returns Promise with array of events
  */
 export async function searchEvents(filters: EventFilters = {}): Promise<Event[]> {
+  const page = await searchEventsPage(filters);
+  return page.events;
+}
+
+/**
+ * Search for one page of events based on filters
+ * 
+ * @param filters - Search filters (city, date, category, price, etc.)
+ * @param cursor - Cursor from a previous page, omit for the first page
+ * @returns Promise with the page of events, total count, next cursor and search origin
+ */
+export async function searchEventsPage(filters: EventFilters = {}, cursor?: string): Promise<EventSearchPage> {
   // Validate API token and base URL before making request
   if (!PREDICTHQ_API_TOKEN) {
-    throw new Error(
-      "PredictHQ API token is not configured. Please set NEXT_PUBLIC_PREDICTHQ_API_TOKEN in your .env.local file."
+    throw new PredictHQError(
+      "PredictHQ API token is not configured. Please set PREDICTHQ_API_TOKEN in your .env.local file."
     );
   }
 
   if (!PREDICTHQ_API_BASE) {
-    throw new Error(
-      "PredictHQ API base URL is not configured. Please set NEXT_PUBLIC_PREDICTHQ_API_BASE in your .env.local file."
+    throw new PredictHQError(
+      "PredictHQ API base URL is not configured. Please set PREDICTHQ_API_BASE in your .env.local file."
     );
   }
 
@@ -346,24 +401,22 @@ export async function searchEvents(filters: EventFilters = {}): Promise<Event[]>
     const params = new URLSearchParams();
     
     // Add location filters
-    let searchLatitude = filters.latitude;
-    let searchLongitude = filters.longitude;
+    // Online events have no location, so searching around a point would exclude them all
+    const useLocation = filters.attendanceMode !== "online";
+    let searchLatitude = useLocation ? filters.latitude : undefined;
+    let searchLongitude = useLocation ? filters.longitude : undefined;
     let searchRadius = filters.radius;
 
     // If we have a city but no coordinates, geocode it first
-    if (!searchLatitude && !searchLongitude && filters.city) {
+    if (useLocation && !searchLatitude && !searchLongitude && filters.city) {
       const geocodeResult = await geocodeLocation(filters.city);
       if (geocodeResult) {
         searchLatitude = geocodeResult.lat;
         searchLongitude = geocodeResult.lon;
         
-        // Use larger radius for countries (e.g., Nigeria) and smaller for cities
+        // Default the radius to the size of the place (country, region or city)
         // Note: radius is in miles per EventFilters interface
-        if (geocodeResult.isCountry) {
-          searchRadius = searchRadius || 300; // 300 miles (~480km) for countries
-        } else {
-          searchRadius = searchRadius || 30; // 30 miles (~48km) for cities
-        }
+        searchRadius = searchRadius || geocodeResult.radiusMiles;
       } else {
         // If geocoding fails, fall back to keyword search
         console.warn(`Geocoding failed for "${filters.city}", falling back to keyword search`);
@@ -372,7 +425,8 @@ export async function searchEvents(filters: EventFilters = {}): Promise<Event[]>
     }
 
     // Use location-based search if we have coordinates
-    if (searchLatitude && searchLongitude) {
+    const origin = searchLatitude && searchLongitude ? { lat: searchLatitude, lon: searchLongitude } : undefined;
+    if (origin) {
       // PredictHQ location format: location_around.origin=lat,lon&location_around.radius=XXkm
       params.append("location_around.origin", `${searchLatitude},${searchLongitude}`);
       // Convert radius from miles to km (EventFilters.radius is in miles)
@@ -400,18 +454,29 @@ export async function searchEvents(filters: EventFilters = {}): Promise<Event[]>
     // Add category filter
     if (filters.category) {
       // PredictHQ categories: concerts, sports, conferences, community, performing-arts, etc.
+      // Multiple categories are comma-separated
       params.append("category", filters.category);
     }
     
+    // Add label filter (comma-separated, e.g. "music,food")
+    if (filters.label) {
+      params.append("label", filters.label);
+    }
+    
     // Only show public events
     params.append("private", "false");
+
+    // Lifecycle states to include (comma-separated)
+    params.append("state", filters.status || DEFAULT_SEARCH_STATUSES.join(","));
     
-    // Set result limit
-    params.append("limit", "50");
+    // Set page size and position
+    params.append("limit", String(PAGE_SIZE));
+    if (cursor) {
+      params.append("offset", String(decodeCursor(cursor)));
+    }
     
-    // Sort by rank (descending - most popular first)
-    // Valid sort values: rank, phq_attendance, start, relevance, etc.
-    params.append("sort", "-rank");
+    // Sort order (most popular first unless the user picked another)
+    params.append("sort", getPredictHQSort(filters));
     
     // Make API request
     let response: Response;
@@ -423,12 +488,11 @@ export async function searchEvents(filters: EventFilters = {}): Promise<Event[]>
             Authorization: `Bearer ${PREDICTHQ_API_TOKEN}`,
             Accept: "application/json",
           },
-          mode: 'cors',
         }
       );
     } catch (error: any) {
       // Handle network errors
-      throw new Error(`Failed to connect to PredictHQ API: ${error.message}. Please check your internet connection and API configuration.`);
+      throw new PredictHQError(`Failed to connect to PredictHQ API: ${error.message}. Please check your internet connection and API configuration.`, 502);
     }
     
     if (!response.ok) {
@@ -466,49 +530,27 @@ export async function searchEvents(filters: EventFilters = {}): Promise<Event[]>
         errorMessage = `PredictHQ API server error. ${errorMessage}`;
       }
       
-      throw new Error(errorMessage);
+      throw new PredictHQError(errorMessage, response.status);
     }
     
     const data: PredictHQResponse = await response.json();
     
     // Transform events to our format
     if (!data.results || data.results.length === 0) {
-      return [];
+      return { events: [], count: data.count || 0, origin };
     }
     
-    return data.results.map(transformEvent);
+    return {
+      events: data.results.map(transformEvent),
+      count: data.count,
+      cursor: getNextCursor(data.next),
+      origin,
+    };
   } catch (error) {
     throw error;
   }
 }
 
-/**
- * Get popular/trending events in a city
- * 
- * @param city - City name or coordinates
- * @returns Promise with array of popular events
- */
-export async function getPopularEvents(city?: string, lat?: number, lon?: number): Promise<Event[]> {
-  const filters: EventFilters = {};
-  
-  if (lat && lon) {
-    filters.latitude = lat;
-    filters.longitude = lon;
-    filters.radius = 50; // Wider radius for popular events (50 miles = ~80km)
-  } else if (city) {
-    filters.city = city;
-    // Let searchEvents handle geocoding and determine appropriate radius
-  } else {
-    filters.city = "New York"; // Default city
-  }
-  
-  // Get events sorted by rank (most popular first)
-  const events = await searchEvents(filters);
-  
-  // Return first 12 events as "popular"
-  return events.slice(0, 12);
-}
-
 /**
  * Get event details by ID
  * 
@@ -518,21 +560,21 @@ export async function getPopularEvents(city?: string, lat?: number, lon?: number
 export async function getEventById(eventId: string): Promise<Event> {
   // Validate API token and base URL
   if (!PREDICTHQ_API_TOKEN) {
-    throw new Error(
-      "PredictHQ API token is not configured. Please set NEXT_PUBLIC_PREDICTHQ_API_TOKEN in your .env.local file."
+    throw new PredictHQError(
+      "PredictHQ API token is not configured. Please set PREDICTHQ_API_TOKEN in your .env.local file."
     );
   }
 
   if (!PREDICTHQ_API_BASE) {
-    throw new Error(
-      "PredictHQ API base URL is not configured. Please set NEXT_PUBLIC_PREDICTHQ_API_BASE in your .env.local file."
+    throw new PredictHQError(
+      "PredictHQ API base URL is not configured. Please set PREDICTHQ_API_BASE in your .env.local file."
     );
   }
 
   try {
     // PredictHQ API uses the search endpoint with 'id' parameter to get event details
     // Format: /v1/events/?id={eventId}
-    const searchUrl = `${PREDICTHQ_API_BASE}/events/?id=${encodeURIComponent(eventId)}`;
+    const searchUrl = `${PREDICTHQ_API_BASE}/events/?id=${encodeURIComponent(eventId)}&state=${ALL_STATES}`;
     
     let response: Response;
     try {
@@ -543,11 +585,10 @@ export async function getEventById(eventId: string): Promise<Event> {
             Authorization: `Bearer ${PREDICTHQ_API_TOKEN}`,
             Accept: "application/json",
           },
-          mode: 'cors',
         }
       );
     } catch (error: any) {
-      throw new Error(`Failed to connect to PredictHQ API: ${error.message}. Please check your internet connection and API configuration.`);
+      throw new PredictHQError(`Failed to connect to PredictHQ API: ${error.message}. Please check your internet connection and API configuration.`, 502);
     }
     
     if (!response.ok) {
@@ -575,21 +616,21 @@ export async function getEventById(eventId: string): Promise<Event> {
         errorMessage = `Authentication failed. Please check your PredictHQ API token.`;
       }
       
-      throw new Error(errorMessage);
+      throw new PredictHQError(errorMessage, response.status);
     }
     
     const responseData: PredictHQResponse = await response.json();
     
     // PredictHQ returns events in a results array
     if (!responseData.results || responseData.results.length === 0) {
-      throw new Error(`Event not found. The event ID "${eventId}" may be invalid or the event may no longer be available.`);
+      throw new PredictHQError(`Event not found. The event ID "${eventId}" may be invalid or the event may no longer be available.`, 404);
     }
     
     // Find the event with matching ID (should be the first one, but let's be safe)
     const predicthqEvent = responseData.results.find((e: PredictHQEvent) => e.id === eventId);
     
     if (!predicthqEvent) {
-      throw new Error(`Event not found. The event ID "${eventId}" was not found in the API response.`);
+      throw new PredictHQError(`Event not found. The event ID "${eventId}" was not found in the API response.`, 404);
     }
     
     const event = transformEvent(predicthqEvent);
@@ -600,28 +641,93 @@ export async function getEventById(eventId: string): Promise<Event> {
   }
 }
 
+// Maximum number of IDs sent in one comma-separated `id` filter
+const ID_BATCH_SIZE = 50;
+
+/**
+ * Fetch one chunk of events using PredictHQ's comma-separated `id` filter
+ */
+async function fetchEventsChunk(eventIds: string[]): Promise<PredictHQEvent[]> {
+  const params = new URLSearchParams();
+  params.append("id", eventIds.join(","));
+  params.append("state", ALL_STATES);
+  params.append("limit", String(eventIds.length));
+
+  let response: Response;
+  try {
+    response = await fetch(`${PREDICTHQ_API_BASE}/events/?${params.toString()}`, {
+      headers: {
+        Authorization: `Bearer ${PREDICTHQ_API_TOKEN}`,
+        Accept: "application/json",
+      },
+    });
+  } catch (error: any) {
+    throw new PredictHQError(`Failed to connect to PredictHQ API: ${error.message}.`, 502);
+  }
+
+  if (!response.ok) {
+    throw new PredictHQError(`PredictHQ API error: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  const data: PredictHQResponse = await response.json();
+  return data.results || [];
+}
+
 /**
  * Get multiple events by their IDs
- * Useful for "My Events" page
+ * IDs are looked up in batches rather than one request per event
  * 
  * @param eventIds - Array of event IDs
- * @returns Promise with array of events
+ * @returns Promise with the events found plus the IDs that were missing or failed
  */
-export async function getEventsByIds(eventIds: string[]): Promise<Event[]> {
-  try {
-    // Fetch all events in parallel, but handle individual failures gracefully
-    const promises = eventIds.map((id) => 
-      getEventById(id).catch((error) => {
-        // Return null for failed events (don't fail the entire request)
-        return null;
-      })
+export async function getEventsByIds(eventIds: string[]): Promise<EventBatchResult> {
+  if (!PREDICTHQ_API_TOKEN) {
+    throw new PredictHQError(
+      "PredictHQ API token is not configured. Please set PREDICTHQ_API_TOKEN in your .env.local file."
     );
-    
-    const results = await Promise.all(promises);
-    // Filter out null values (failed events)
-    return results.filter((event): event is Event => event !== null);
-  } catch (error) {
-    return [];
   }
-}
 
+  if (!PREDICTHQ_API_BASE) {
+    throw new PredictHQError(
+      "PredictHQ API base URL is not configured. Please set PREDICTHQ_API_BASE in your .env.local file."
+    );
+  }
+
+  const uniqueIds = Array.from(new Set(eventIds));
+  const chunks: string[][] = [];
+  for (let i = 0; i < uniqueIds.length; i += ID_BATCH_SIZE) {
+    chunks.push(uniqueIds.slice(i, i + ID_BATCH_SIZE));
+  }
+
+  const result: EventBatchResult = { events: [], notFound: [], failed: [] };
+
+  // Chunks run in parallel; one failing chunk doesn't fail the others
+  const chunkResults = await Promise.allSettled(chunks.map(fetchEventsChunk));
+
+  chunkResults.forEach((chunkResult, index) => {
+    const chunkIds = chunks[index];
+
+    if (chunkResult.status === "rejected") {
+      console.warn("Batch event lookup failed:", chunkResult.reason);
+      result.failed.push(...chunkIds);
+      return;
+    }
+
+    // Match results back by ID, since PredictHQ doesn't preserve request order
+    const byId = new Map(chunkResult.value.map((e) => [e.id, e]));
+    chunkIds.forEach((id) => {
+      const predicthqEvent = byId.get(id);
+      if (predicthqEvent) {
+        result.events.push(transformEvent(predicthqEvent));
+      } else {
+        result.notFound.push(id);
+      }
+    });
+  });
+
+  // Keep events in the order they were requested
+  const order = new Map(uniqueIds.map((id, index) => [id, index]));
+  result.events.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+  return result;
+}
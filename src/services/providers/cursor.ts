@@ -0,0 +1,31 @@
+/**
+ * Page Cursors
+ * 
+ * Providers hand out opaque cursors so clients can't depend on
+ * how a provider paginates internally. Both providers paginate by offset.
+ */
+
+import { EventProviderError } from "./types";
+
+/**
+ * Encode a result offset as an opaque page cursor
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+/**
+ * Decode a page cursor back into a result offset
+ * Throws a 400 error for cursors we didn't issue
+ */
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch (e) {
+    // Fall through to the error below
+  }
+  throw new EventProviderError(`Invalid page cursor "${cursor}".`, 400);
+}
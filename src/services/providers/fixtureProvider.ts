@@ -0,0 +1,180 @@
+/**
+ * Fixture Event Provider
+ *
+ * Serves events from a JSON file on disk so the app can be developed and
+ * tested without a PredictHQ token or network access.
+ *
+ * The file is read from EVENT_FIXTURES_PATH (default: fixtures/events.json)
+ * and must contain an array of Event objects.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Event, EventBatchResult, EventFilters, EventSearchPage } from "@/types/event";
+import { EventProvider, EventProviderError } from "./types";
+import { encodeCursor, decodeCursor } from "./cursor";
+import { haversineDistanceMiles } from "@/utils/distance";
+import { DEFAULT_SEARCH_STATUSES, getEventStatus } from "@/utils/eventStatus";
+
+// Number of events returned per page (matches the PredictHQ provider)
+const PAGE_SIZE = 50;
+
+// Default search radius in miles when filtering by coordinates
+const DEFAULT_RADIUS_MILES = 30;
+
+const FIXTURES_PATH =
+  process.env.EVENT_FIXTURES_PATH || path.join(process.cwd(), "fixtures", "events.json");
+
+/**
+ * Load all fixture events from disk
+ * The file is re-read on every call so edits show up without a restart
+ */
+async function loadFixtures(): Promise<Event[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(FIXTURES_PATH, "utf-8");
+  } catch (error: any) {
+    throw new EventProviderError(`Could not read event fixtures from "${FIXTURES_PATH}": ${error.message}`);
+  }
+
+  const events = JSON.parse(contents);
+  if (!Array.isArray(events)) {
+    throw new EventProviderError(`Event fixtures in "${FIXTURES_PATH}" must be a JSON array of events.`);
+  }
+  return events.map((event: Event) => ({ ...event, provider: "fixture" }));
+}
+
+/**
+ * Check whether an event matches the search filters
+ * Mirrors what PredictHQ does server-side, as closely as is useful offline
+ */
+function matchesFilters(event: Event, filters: EventFilters): boolean {
+  if (filters.query) {
+    const query = filters.query.toLowerCase();
+    const haystack = `${event.name} ${event.description}`.toLowerCase();
+    if (!haystack.includes(query)) {
+      return false;
+    }
+  }
+
+  if (filters.category) {
+    const categories = filters.category.split(",");
+    if (!event.category || !categories.includes(event.category)) {
+      return false;
+    }
+  }
+
+  if (filters.label) {
+    const labels = filters.label.split(",");
+    if (!event.labels?.some((label) => labels.includes(label))) {
+      return false;
+    }
+  }
+
+  const statuses = filters.status ? filters.status.split(",") : DEFAULT_SEARCH_STATUSES;
+  if (!statuses.includes(getEventStatus(event))) {
+    return false;
+  }
+
+  if (filters.startDate && new Date(event.startDate) < new Date(filters.startDate)) {
+    return false;
+  }
+
+  if (filters.endDate && new Date(event.startDate) > new Date(filters.endDate)) {
+    return false;
+  }
+
+  // Online events can be joined from anywhere, so location doesn't apply to them
+  if (filters.attendanceMode === "online") {
+    return true;
+  }
+
+  if (filters.latitude !== undefined && filters.longitude !== undefined) {
+    if (event.venue?.latitude === undefined || event.venue?.longitude === undefined) {
+      return false;
+    }
+    const distance = haversineDistanceMiles(
+      filters.latitude,
+      filters.longitude,
+      event.venue.latitude,
+      event.venue.longitude
+    );
+    if (distance > (filters.radius || DEFAULT_RADIUS_MILES)) {
+      return false;
+    }
+  } else if (filters.city) {
+    // No geocoding offline - match the city against the venue text instead
+    const city = filters.city.toLowerCase();
+    const venueText = `${event.venue?.city || ""} ${event.venue?.address || ""}`.toLowerCase();
+    if (!venueText.includes(city)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Sort matching fixtures in place
+ * Relevance and "nearest" keep the file order ("nearest" is applied in the browser)
+ */
+function sortFixtures(events: Event[], sort: EventFilters["sort"]): void {
+  const byNumberDesc = (value: (event: Event) => number | undefined) => (a: Event, b: Event) =>
+    (value(b) ?? -1) - (value(a) ?? -1);
+
+  if (sort === "soonest") {
+    events.sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  } else if (sort === "attendance") {
+    events.sort(byNumberDesc((event) => event.insights?.attendance));
+  } else if (!sort || sort === "popular") {
+    events.sort(byNumberDesc((event) => event.insights?.rank));
+  }
+}
+
+export const fixtureProvider: EventProvider = {
+  name: "fixture",
+  // Fixtures can carry prices, but price filtering is left to providers/index.ts
+  capabilities: {
+    priceData: true,
+    priceFilter: false,
+  },
+
+  async search(filters: EventFilters, cursor?: string): Promise<EventSearchPage> {
+    const offset = cursor ? decodeCursor(cursor) : 0;
+    const matches = (await loadFixtures()).filter((event) => matchesFilters(event, filters));
+    sortFixtures(matches, filters.sort);
+    const nextOffset = offset + PAGE_SIZE;
+
+    return {
+      events: matches.slice(offset, nextOffset),
+      count: matches.length,
+      cursor: nextOffset < matches.length ? encodeCursor(nextOffset) : undefined,
+      origin:
+        filters.latitude !== undefined && filters.longitude !== undefined
+          ? { lat: filters.latitude, lon: filters.longitude }
+          : undefined,
+    };
+  },
+
+  async getById(eventId: string): Promise<Event> {
+    const event = (await loadFixtures()).find((e) => e.id === eventId);
+    if (!event) {
+      throw new EventProviderError(`Event not found. The event ID "${eventId}" is not in the fixture data.`, 404);
+    }
+    return event;
+  },
+
+  async getByIds(eventIds: string[]): Promise<EventBatchResult> {
+    const events = await loadFixtures();
+    const found = eventIds
+      .map((id) => events.find((e) => e.id === id))
+      .filter((event): event is Event => event !== undefined);
+    const foundIds = new Set(found.map((event) => event.id));
+
+    return {
+      events: found,
+      notFound: eventIds.filter((id) => !foundIds.has(id)),
+      failed: [],
+    };
+  },
+};
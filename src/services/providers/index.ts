@@ -0,0 +1,90 @@
+/**
+ * Event Provider Selection
+ * 
+ * Picks the event provider from the EVENT_PROVIDER environment variable:
+ * - "predicthq" (default): live data from the PredictHQ API
+ * - "fixture": offline data from a JSON file (see fixtureProvider.ts)
+ * 
+ * Filters a provider can't apply itself (price, attendance mode) are applied
+ * here after fetching, when the provider has the data to do so.
+ */
+
+import { Event, EventFilters, EventSearchPage } from "@/types/event";
+import { matchesPriceFilter } from "@/utils/price";
+import { matchesAttendanceMode } from "@/utils/attendanceMode";
+import { EventProvider } from "./types";
+import { predicthqProvider } from "./predicthqProvider";
+import { fixtureProvider } from "./fixtureProvider";
+
+export type { EventProvider, EventProviderCapabilities } from "./types";
+export { EventProviderError } from "./types";
+
+// How many more pages to fetch when filtering after fetching leaves a page empty
+const MAX_EXTRA_PAGES = 5;
+
+const providers: Record<string, EventProvider> = {
+  [predicthqProvider.name]: predicthqProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+/**
+ * Get the configured event provider
+ */
+export function getEventProvider(): EventProvider {
+  const name = process.env.EVENT_PROVIDER || predicthqProvider.name;
+  const provider = providers[name];
+
+  if (!provider) {
+    throw new Error(
+      `Unknown EVENT_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(", ")}.`
+    );
+  }
+
+  return provider;
+}
+
+/**
+ * Search the configured provider, filling in filters it can't apply itself
+ * 
+ * @param filters - Search filters
+ * @param cursor - Cursor from a previous page, omit for the first page
+ * @returns Promise with the page of events; unsupportedFilters lists filters that were ignored
+ */
+export async function searchEvents(filters: EventFilters, cursor?: string): Promise<EventSearchPage> {
+  const provider = getEventProvider();
+  let page = await provider.search(filters, cursor);
+  const unsupportedFilters: Array<keyof EventFilters> = [];
+  const matchers: Array<(event: Event) => boolean> = [];
+
+  if (filters.price && !provider.capabilities.priceFilter) {
+    if (provider.capabilities.priceData) {
+      const price = filters.price;
+      matchers.push((event) => matchesPriceFilter(event, price));
+    } else {
+      // Without price data every event would be filtered out, so ignore the filter
+      unsupportedFilters.push("price");
+    }
+  }
+
+  // Every provider sets isOnline, so attendance mode is always applied here
+  if (filters.attendanceMode) {
+    const mode = filters.attendanceMode;
+    matchers.push((event) => matchesAttendanceMode(event, mode));
+  }
+
+  if (matchers.length > 0) {
+    // Filter after fetching; count still reflects the unfiltered total, so
+    // the page is flagged for the client not to show it as the match count.
+    // Skip ahead through pages that filter down to nothing; if they're still
+    // empty after that, the cursor lets the client ask for more.
+    const matches = (event: Event) => matchers.every((matcher) => matcher(event));
+    let events = page.events.filter(matches);
+    for (let extraPages = 0; events.length === 0 && page.cursor && extraPages < MAX_EXTRA_PAGES; extraPages++) {
+      page = await provider.search(filters, page.cursor);
+      events = page.events.filter(matches);
+    }
+    page = { ...page, events, filteredAfterFetch: true };
+  }
+
+  return unsupportedFilters.length > 0 ? { ...page, unsupportedFilters } : page;
+}
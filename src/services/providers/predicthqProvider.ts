@@ -0,0 +1,20 @@
+/**
+ * PredictHQ Event Provider
+ * 
+ * Adapts the PredictHQ service to the EventProvider interface.
+ */
+
+import { EventProvider } from "./types";
+import { searchEventsPage, getEventById, getEventsByIds } from "@/services/predicthq";
+
+export const predicthqProvider: EventProvider = {
+  name: "predicthq",
+  // PredictHQ has no ticket price information
+  capabilities: {
+    priceData: false,
+    priceFilter: false,
+  },
+  search: searchEventsPage,
+  getById: getEventById,
+  getByIds: getEventsByIds,
+};
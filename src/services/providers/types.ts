@@ -0,0 +1,43 @@
+/**
+ * Event Provider Types
+ * 
+ * An EventProvider is a source of events (PredictHQ, local fixtures, ...).
+ * The /api/events route handlers only talk to the configured provider,
+ * so vendors can be swapped without touching the UI.
+ */
+
+import { Event, EventBatchResult, EventFilters, EventSearchPage } from "@/types/event";
+
+export interface EventProviderCapabilities {
+  // Events carry real price data (Event.price)
+  priceData: boolean;
+  // search() filters by EventFilters.price itself
+  priceFilter: boolean;
+}
+
+export interface EventProvider {
+  // Short identifier, e.g. "predicthq" or "fixture"
+  name: string;
+  // What the provider can do; missing features are handled in providers/index.ts
+  capabilities: EventProviderCapabilities;
+  // Search for one page of events
+  search(filters: EventFilters, cursor?: string): Promise<EventSearchPage>;
+  // Get a single event, throws EventProviderError (404) if it doesn't exist
+  getById(eventId: string): Promise<Event>;
+  // Get several events, reporting IDs that were not found or failed to load
+  getByIds(eventIds: string[]): Promise<EventBatchResult>;
+}
+
+/**
+ * Error thrown by event providers
+ * Carries the HTTP status our API routes should respond with
+ */
+export class EventProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 500) {
+    super(message);
+    this.name = "EventProviderError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Saved Searches Service
+ *
+ * Stores named sets of search filters in localStorage so users can re-run
+ * the searches they make every week (e.g. "Tech conferences near Lagos").
+ *
+ * Each saved search remembers the event IDs on the first page of results
+ * when it was last viewed. Re-running it and comparing its first page
+ * against those IDs tells us how many events are new since then. Both sides
+ * must be the same window: comparing more pages on one side than the other
+ * would count events that merely moved between pages as new.
+ */
+
+import { EventFilters, SavedSearch } from "@/types/event";
+import { normalizeEventFilters } from "@/utils/eventFilterParams";
+
+const SAVED_SEARCHES_KEY = "nearnow_saved_searches";
+
+/**
+ * Generate an ID for a new saved search
+ */
+function createSearchId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Write all saved searches
+ */
+function writeSavedSearches(searches: SavedSearch[]): void {
+  localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(searches));
+}
+
+/**
+ * Get all saved searches from localStorage
+ *
+ * @returns Array of saved searches, oldest first
+ */
+export function getSavedSearches(): SavedSearch[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const saved = localStorage.getItem(SAVED_SEARCHES_KEY);
+    if (!saved) {
+      return [];
+    }
+
+    const raw = JSON.parse(saved);
+    if (!Array.isArray(raw)) {
+      console.warn("Unrecognized saved searches format in localStorage, starting fresh.");
+      return [];
+    }
+    return raw;
+  } catch (error) {
+    console.error("Error reading saved searches from localStorage:", error);
+    return [];
+  }
+}
+
+/**
+ * Get a saved search by ID
+ *
+ * @param searchId - Saved search ID
+ * @returns The saved search, or undefined if it doesn't exist
+ */
+export function getSavedSearch(searchId: string): SavedSearch | undefined {
+  return getSavedSearches().find((search) => search.id === searchId);
+}
+
+/**
+ * Save a search
+ *
+ * @param name - Name shown in the saved searches list
+ * @param filters - Filters to re-run
+ * @param eventIds - IDs of the events the search currently returns (treated as seen)
+ * @returns The new saved search, or null if it couldn't be stored
+ */
+export function createSavedSearch(name: string, filters: EventFilters, eventIds: string[]): SavedSearch | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const search: SavedSearch = {
+      id: createSearchId(),
+      name: name.trim(),
+      filters: normalizeEventFilters(filters),
+      seenEventIds: eventIds,
+      createdAt: now,
+      lastViewedAt: now,
+    };
+    writeSavedSearches([...getSavedSearches(), search]);
+    return search;
+  } catch (error) {
+    console.error("Error saving search to localStorage:", error);
+    return null;
+  }
+}
+
+/**
+ * Mark a saved search's current results as seen
+ *
+ * @param searchId - Saved search ID
+ * @param eventIds - IDs of the events the search currently returns
+ */
+export function markSavedSearchSeen(searchId: string, eventIds: string[]): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    const lastViewedAt = new Date().toISOString();
+    writeSavedSearches(
+      getSavedSearches().map((search) =>
+        search.id === searchId ? { ...search, seenEventIds: eventIds, lastViewedAt } : search
+      )
+    );
+  } catch (error) {
+    console.error("Error updating saved search in localStorage:", error);
+  }
+}
+
+/**
+ * Remove a saved search
+ *
+ * @param searchId - Saved search ID
+ */
+export function removeSavedSearch(searchId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    writeSavedSearches(getSavedSearches().filter((search) => search.id !== searchId));
+  } catch (error) {
+    console.error("Error removing saved search from localStorage:", error);
+  }
+}
+
+/**
+ * Count the events in a set of results that the saved search hasn't seen
+ *
+ * @param search - Saved search
+ * @param eventIds - IDs of the events the search returns now
+ * @returns Number of new events
+ */
+export function countNewMatches(search: SavedSearch, eventIds: string[]): number {
+  const seen = new Set(search.seenEventIds);
+  return eventIds.filter((id) => !seen.has(id)).length;
+}
@@ -91,9 +91,63 @@ export interface Event {
     display: string;
   };
   category?: string;
+  labels?: string[]; // PredictHQ labels, e.g. "music", "technology"
   isOnline: boolean;
+  status?: EventStatus; // lifecycle state, missing means active
+  provider?: string; // event provider that served this event, e.g. "predicthq"
+  insights?: EventInsights; // predicted attendance and impact, when the provider has them
 }
 
+// Lifecycle state of an event (PredictHQ's `state`)
+// "predicted" events are expected to happen but not yet confirmed
+export type EventStatus = "active" | "predicted" | "cancelled" | "postponed" | "deleted";
+
+// Predicted attendance and impact data (from PredictHQ)
+export interface EventInsights {
+  attendance?: number; // predicted number of people attending
+  rank?: number; // 0-100, overall impact on a log scale
+  localRank?: number; // 0-100, impact relative to the area around the event
+  labels?: Array<{ label: string; weight?: number }>; // labels with how strongly they apply (0-1)
+  predictedSpend?: number; // predicted total spend by attendees, in USD
+  durationSeconds?: number;
+}
+
+// A saved/bookmarked event as persisted in localStorage
+export interface SavedEvent {
+  id: string;
+  event?: Event; // snapshot of the event, missing for entries migrated from ID-only storage
+  provider: string; // provider the event came from, "unknown" for migrated entries
+  savedAt: string; // ISO 8601
+  refreshedAt?: string; // ISO 8601, when the snapshot was last refreshed from the API
+  collectionIds?: string[]; // collections the event has been added to
+  tags?: string[]; // free-form tags, lowercase
+  note?: string; // private note
+  savedStatus?: EventStatus; // event status when it was saved (or last acknowledged)
+}
+
+// A named list of saved events (e.g. "Conference trip")
+export interface EventCollection {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+}
+
+// A named set of search filters, stored in localStorage
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: EventFilters;
+  seenEventIds: string[]; // event IDs on the search's first page of results when it was last viewed
+  createdAt: string; // ISO 8601
+  lastViewedAt: string; // ISO 8601
+}
+
+// Whether events take place online or at a venue
+export type AttendanceMode = "online" | "in-person";
+
+// Sort orders for search results
+export type EventSort = "popular" | "soonest" | "attendance" | "relevance" | "nearest";
+
 // Event Search Filters
 export interface EventFilters {
   city?: string;
@@ -102,12 +156,33 @@ export interface EventFilters {
   radius?: number; // in miles
   startDate?: string;
   endDate?: string;
-  category?: string;
+  category?: string; // comma-separated, e.g. "concerts,festivals"
+  label?: string; // comma-separated, e.g. "music,food"
   price?: {
     min?: number;
     max?: number;
   };
   query?: string; // search keywords
+  status?: string; // comma-separated EventStatus values to include, e.g. "active,postponed"
+  attendanceMode?: AttendanceMode; // only online or only in-person events
+  sort?: EventSort;
+}
+
+// One page of search results
+export interface EventSearchPage {
+  events: Event[];
+  count: number; // total number of matching events (before filtering, when filteredAfterFetch is set)
+  cursor?: string; // opaque cursor for the next page, undefined on the last page
+  unsupportedFilters?: Array<keyof EventFilters>; // filters the provider couldn't honor
+  filteredAfterFetch?: boolean; // some filters were applied to fetched pages, so the real number of matches is unknown
+  origin?: { lat: number; lon: number }; // point the search was centered on (coordinates or a geocoded city)
+}
+
+// Result of looking up several events by ID
+export interface EventBatchResult {
+  events: Event[];
+  notFound: string[]; // IDs the provider has no event for
+  failed: string[]; // IDs whose lookup errored (network, server error, ...)
 }
 
 // PredictHQ API Response (kept for reference, not currently used)
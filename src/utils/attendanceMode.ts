@@ -0,0 +1,26 @@
+/**
+ * Attendance Mode
+ *
+ * The "online only / in person only" search filter. Providers don't filter
+ * on this themselves; providers/index.ts applies it to each page of results
+ * using Event.isOnline.
+ */
+
+import { AttendanceMode, Event } from "@/types/event";
+
+export interface AttendanceModeOption {
+  value: AttendanceMode;
+  name: string;
+}
+
+export const ATTENDANCE_MODES: AttendanceModeOption[] = [
+  { value: "in-person", name: "In Person Only" },
+  { value: "online", name: "Online Only" },
+];
+
+/**
+ * Check whether an event matches an attendance mode
+ */
+export function matchesAttendanceMode(event: Event, mode: AttendanceMode): boolean {
+  return mode === "online" ? event.isOnline : !event.isOnline;
+}
@@ -0,0 +1,283 @@
+/**
+ * Calendar Export Utilities
+ *
+ * Builds RFC 5545 iCalendar (.ics) files and Google/Outlook "add event"
+ * links from our Event type.
+ *
+ * RFC 5545: https://datatracker.ietf.org/doc/html/rfc5545
+ */
+
+import { Event } from "@/types/event";
+import { getOffsetTransitions, getTimezoneOffsetMinutes, getZonedParts, isValidTimezone } from "./timezone";
+
+const PRODUCT_ID = "-//NearNow//Event Discovery//EN";
+const UID_DOMAIN = "nearnow.app";
+const DEFAULT_DURATION_MS = 60 * 60 * 1000; // 1 hour, for events without a real end time
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Start and end instants for an event
+ * Events without an end after their start are treated as lasting an hour
+ */
+function getEventTimes(event: Event): { start: Date; end: Date } {
+  const start = new Date(event.startDate);
+  const end = new Date(event.endDate);
+  if (isNaN(end.getTime()) || end.getTime() <= start.getTime()) {
+    return { start, end: new Date(start.getTime() + DEFAULT_DURATION_MS) };
+  }
+  return { start, end };
+}
+
+/**
+ * Pad a number to two digits
+ */
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Format an instant as a UTC date-time, e.g. 20270312T180000Z
+ */
+function formatUtc(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Format an instant as wall-clock time in a timezone, e.g. 20270312T190000
+ */
+function formatLocal(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+/**
+ * Format a UTC offset in minutes as +HHMM / -HHMM
+ */
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n ");
+}
+
+/**
+ * Stable UID for an event, so re-importing updates instead of duplicating it
+ */
+export function getEventUid(event: Event): string {
+  return `${event.id.replace(/[^a-zA-Z0-9._-]/g, "-")}@${UID_DOMAIN}`;
+}
+
+/**
+ * Build a VTIMEZONE component covering the given range
+ * Lists every offset change in the range as its own observance
+ */
+function buildTimezone(timeZone: string, rangeStart: Date, rangeEnd: Date): string[] {
+  const transitions = getOffsetTransitions(timeZone, rangeStart, rangeEnd);
+  const initialOffset = getTimezoneOffsetMinutes(rangeStart, timeZone);
+  // The smallest offset in use is standard time; anything larger is daylight saving
+  const standardOffset = Math.min(initialOffset, ...transitions.map((t) => t.offsetTo));
+
+  const observance = (start: string, offsetFrom: number, offsetTo: number) => {
+    const type = offsetTo > standardOffset ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${start}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${type}`,
+    ];
+  };
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  lines.push(...observance(formatLocal(rangeStart, timeZone), initialOffset, initialOffset));
+  transitions.forEach((transition) => {
+    // DTSTART is the local time just before the change, in the old offset
+    const localStart = new Date(transition.at.getTime() + transition.offsetFrom * 60 * 1000);
+    lines.push(...observance(formatUtc(localStart).slice(0, -1), transition.offsetFrom, transition.offsetTo));
+  });
+  lines.push("END:VTIMEZONE");
+
+  return lines;
+}
+
+/**
+ * Build the VEVENT component for an event
+ */
+function buildEvent(event: Event, timeZone: string | undefined, stamp: Date): string[] {
+  const { start, end } = getEventTimes(event);
+  const dateProperty = (name: string, date: Date) =>
+    timeZone ? `${name};TZID=${timeZone}:${formatLocal(date, timeZone)}` : `${name}:${formatUtc(date)}`;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    dateProperty("DTSTART", start),
+    dateProperty("DTEND", end),
+    `SUMMARY:${escapeText(event.name)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  const location = getEventLocation(event);
+  if (location) {
+    lines.push(`LOCATION:${escapeText(location)}`);
+  }
+
+  if (event.venue?.latitude !== undefined && event.venue?.longitude !== undefined) {
+    lines.push(`GEO:${event.venue.latitude};${event.venue.longitude}`);
+  }
+
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+
+  if (event.category) {
+    lines.push(`CATEGORIES:${escapeText(event.category)}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Single-line location for an event, e.g. "Freedom Park, 1 Hospital Road, Lagos"
+ */
+function getEventLocation(event: Event): string | undefined {
+  if (!event.venue) {
+    return event.isOnline ? "Online" : undefined;
+  }
+  const { name, address } = event.venue;
+  return address && address !== name ? `${name}, ${address}` : name;
+}
+
+/**
+ * Build an iCalendar file containing the given events
+ *
+ * @param events - Events to include
+ * @returns Contents of a .ics file
+ */
+export function buildIcsCalendar(events: Event[]): string {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  // One VTIMEZONE per timezone, covering every event that uses it.
+  // Ranges are widened to whole years so standard and daylight time are both seen.
+  const ranges = new Map<string, { start: Date; end: Date }>();
+  events.forEach((event) => {
+    if (!isValidTimezone(event.timezone)) {
+      return;
+    }
+    const times = getEventTimes(event);
+    const start = new Date(Date.UTC(times.start.getUTCFullYear() - 1, 11, 31));
+    const end = new Date(Date.UTC(times.end.getUTCFullYear() + 1, 0, 2));
+    const range = ranges.get(event.timezone);
+    ranges.set(event.timezone, {
+      start: range && range.start < start ? range.start : start,
+      end: range && range.end > end ? range.end : end,
+    });
+  });
+  ranges.forEach((range, timeZone) => {
+    lines.push(...buildTimezone(timeZone, range.start, range.end));
+  });
+
+  events.forEach((event) => {
+    const timeZone = isValidTimezone(event.timezone) ? event.timezone : undefined;
+    lines.push(...buildEvent(event, timeZone, stamp));
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Google Calendar "add event" link
+ */
+export function getGoogleCalendarUrl(event: Event): string {
+  const { start, end } = getEventTimes(event);
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: event.name,
+    dates: `${formatUtc(start)}/${formatUtc(end)}`,
+    details: [event.description, event.url].filter(Boolean).join("\n\n"),
+  });
+
+  const location = getEventLocation(event);
+  if (location) {
+    params.set("location", location);
+  }
+  if (isValidTimezone(event.timezone)) {
+    params.set("ctz", event.timezone);
+  }
+
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
+
+/**
+ * Outlook on the web "add event" link
+ */
+export function getOutlookCalendarUrl(event: Event): string {
+  const { start, end } = getEventTimes(event);
+  const params = new URLSearchParams({
+    path: "/calendar/action/compose",
+    rru: "addevent",
+    subject: event.name,
+    startdt: start.toISOString(),
+    enddt: end.toISOString(),
+    body: [event.description, event.url].filter(Boolean).join("\n\n"),
+  });
+
+  const location = getEventLocation(event);
+  if (location) {
+    params.set("location", location);
+  }
+
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { Event } from "@/types/event";
+import { formatEventSchedule, formatEventStart, formatViewerLocalStart, FormattedSchedule } from "./dateFormat";
+
+// The viewer's timezone is pinned to America/New_York in vitest.config.mjs
+
+function makeEvent(startDate: string, endDate: string, timezone: string): Event {
+  return { id: "test-event", name: "Test Event", description: "", startDate, endDate, timezone, url: "", isOnline: false };
+}
+
+// Intl uses narrow and thin spaces around times and range dashes; compare with plain spaces
+function normalizeSpaces(value: string): string {
+  return value.replace(/\s/g, " ");
+}
+
+function normalizeSchedule(schedule: FormattedSchedule): FormattedSchedule {
+  return { date: normalizeSpaces(schedule.date), time: normalizeSpaces(schedule.time) };
+}
+
+describe("formatEventSchedule", () => {
+  it("shows times in the event's timezone by default", () => {
+    const event = makeEvent("2026-06-13T18:00:00Z", "2026-06-13T22:00:00Z", "Africa/Lagos");
+    expect(normalizeSchedule(formatEventSchedule(event, { locale: "en-US" }))).toEqual({
+      date: "Saturday, June 13, 2026",
+      time: "7:00 – 11:00 PM GMT+1",
+    });
+  });
+
+  it("shows times in the viewer's timezone when asked", () => {
+    const event = makeEvent("2026-06-13T18:00:00Z", "2026-06-13T22:00:00Z", "Africa/Lagos");
+    expect(normalizeSchedule(formatEventSchedule(event, { locale: "en-US", timeZone: "viewer" }))).toEqual({
+      date: "Saturday, June 13, 2026",
+      time: "2:00 – 6:00 PM EDT",
+    });
+  });
+
+  it("shows only the start when there is no end after it", () => {
+    const event = makeEvent("2026-06-13T18:00:00Z", "", "Africa/Lagos");
+    expect(normalizeSchedule(formatEventSchedule(event, { locale: "en-US" })).time).toBe("7:00 PM GMT+1");
+  });
+
+  it("names both offsets across the America/New_York spring-forward", () => {
+    const event = makeEvent("2026-03-08T06:00:00Z", "2026-03-08T08:00:00Z", "America/New_York");
+    expect(normalizeSchedule(formatEventSchedule(event, { locale: "en-US" }))).toEqual({
+      date: "Sunday, March 8, 2026",
+      time: "1:00 AM EST – 4:00 AM EDT",
+    });
+  });
+
+  it("tells the repeated hour apart across the America/New_York fall-back", () => {
+    const event = makeEvent("2026-11-01T05:30:00Z", "2026-11-01T06:30:00Z", "America/New_York");
+    expect(normalizeSchedule(formatEventSchedule(event, { locale: "en-US" }))).toEqual({
+      date: "Sunday, November 1, 2026",
+      time: "1:30 AM EDT – 1:30 AM EST",
+    });
+  });
+
+  it("names both offsets across the Europe/London spring-forward", () => {
+    const event = makeEvent("2026-03-29T00:30:00Z", "2026-03-29T01:30:00Z", "Europe/London");
+    expect(normalizeSchedule(formatEventSchedule(event, { locale: "en-GB" }))).toEqual({
+      date: "Sunday, 29 March 2026",
+      time: "00:30 GMT – 02:30 BST",
+    });
+  });
+
+  it("shows a multi-day range that crosses the Europe/London fall-back", () => {
+    const event = makeEvent("2026-10-24T09:00:00Z", "2026-10-26T18:00:00Z", "Europe/London");
+    expect(normalizeSchedule(formatEventSchedule(event, { locale: "en-GB" }))).toEqual({
+      date: "Saturday 24 October – Monday 26 October 2026",
+      time: "Sat, 10:00 BST – Mon, 18:00 GMT",
+    });
+  });
+});
+
+describe("formatEventStart", () => {
+  it("uses the event's offset on the date of the event", () => {
+    const event = makeEvent("2026-03-20T18:00:00Z", "", "Europe/London");
+    expect(normalizeSpaces(formatEventStart(event, { locale: "en-US" }))).toBe("Fri, Mar 20, 6:00 PM GMT");
+  });
+});
+
+describe("formatViewerLocalStart", () => {
+  it("shows the viewer's local start for events in another timezone", () => {
+    const event = makeEvent("2026-01-10T18:00:00Z", "", "Africa/Lagos");
+    expect(normalizeSpaces(formatViewerLocalStart(event, "en-US")!)).toBe("Sat, 1:00 PM EST");
+  });
+
+  it("returns nothing for events without a known timezone", () => {
+    expect(formatViewerLocalStart(makeEvent("2026-01-10T18:00:00Z", "", ""), "en-US")).toBeUndefined();
+    expect(formatViewerLocalStart(makeEvent("2026-01-10T18:00:00Z", "", "Not/AZone"), "en-US")).toBeUndefined();
+  });
+
+  // America/Bogota stays on UTC-5, which matches New York only outside daylight saving
+  it("compares offsets on the event's date around the spring-forward", () => {
+    expect(formatViewerLocalStart(makeEvent("2026-03-07T18:00:00Z", "", "America/Bogota"), "en-US")).toBeUndefined();
+    expect(
+      normalizeSpaces(formatViewerLocalStart(makeEvent("2026-03-09T18:00:00Z", "", "America/Bogota"), "en-US")!)
+    ).toBe("Mon, 2:00 PM EDT");
+  });
+
+  it("compares offsets on the event's date around the fall-back", () => {
+    expect(
+      normalizeSpaces(formatViewerLocalStart(makeEvent("2026-10-31T18:00:00Z", "", "America/Bogota"), "en-US")!)
+    ).toBe("Sat, 2:00 PM EDT");
+    expect(formatViewerLocalStart(makeEvent("2026-11-02T18:00:00Z", "", "America/Bogota"), "en-US")).toBeUndefined();
+  });
+
+  // Europe/London springs forward three weeks after New York
+  it("notices when only the viewer has changed offset", () => {
+    expect(
+      normalizeSpaces(formatViewerLocalStart(makeEvent("2026-03-20T18:00:00Z", "", "Europe/London"), "en-US")!)
+    ).toBe("Fri, 2:00 PM EDT");
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Event Date Formatting
+ *
+ * Shared date and time formatting for events. Times are shown in the
+ * event's own timezone by default, so a 7pm Lagos concert reads 7pm
+ * wherever the viewer is; pass `timeZone: "viewer"` to use the viewer's
+ * local time instead. Events with an unknown timezone fall back to the
+ * viewer's local time.
+ */
+
+import { Event } from "@/types/event";
+import { getTimezoneOffsetMinutes, getZonedParts, isValidTimezone } from "./timezone";
+
+/**
+ * Which clock to show times on
+ */
+export type TimeZoneMode = "event" | "viewer";
+
+export interface DateFormatOptions {
+  timeZone?: TimeZoneMode; // Defaults to "event"
+  locale?: string; // Defaults to the viewer's locale
+}
+
+/**
+ * Formatted date and time lines for an event's schedule
+ */
+export interface FormattedSchedule {
+  date: string; // e.g. "Saturday, March 13, 2027" or "Friday, March 12 – Sunday, March 14, 2027"
+  time: string; // e.g. "7:00 – 11:00 PM GMT+1"
+}
+
+/**
+ * The viewer's IANA timezone, e.g. "America/New_York"
+ */
+export function getViewerTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Timezone to format an event in, or undefined for the viewer's local time
+ */
+function resolveTimeZone(event: Event, mode: TimeZoneMode = "event"): string | undefined {
+  return mode === "event" && isValidTimezone(event.timezone) ? event.timezone : undefined;
+}
+
+/**
+ * Start and end instants for an event
+ * End is undefined when the event has no real end after its start
+ */
+function getEventInstants(event: Event): { start: Date; end?: Date } {
+  const start = new Date(event.startDate);
+  const end = new Date(event.endDate);
+  if (isNaN(end.getTime()) || end.getTime() <= start.getTime()) {
+    return { start };
+  }
+  return { start, end };
+}
+
+/**
+ * Check if two instants fall on the same calendar day in a timezone
+ */
+function isSameDay(a: Date, b: Date, timeZone: string): boolean {
+  const first = getZonedParts(a, timeZone);
+  const second = getZonedParts(b, timeZone);
+  return first.year === second.year && first.month === second.month && first.day === second.day;
+}
+
+/**
+ * Format a date string on its own, e.g. "Mar 13, 2027"
+ *
+ * @param dateString - ISO date string
+ * @param timeZone - IANA timezone name, omit for the viewer's local time
+ * @param locale - Locale to format in, omit for the viewer's locale
+ */
+export function formatDate(dateString: string, timeZone?: string, locale?: string): string {
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: "medium",
+    timeZone: isValidTimezone(timeZone) ? timeZone : undefined,
+  }).format(new Date(dateString));
+}
+
+/**
+ * Format a time on its own, e.g. "7:00 PM"
+ *
+ * @param dateString - ISO date string
+ * @param timeZone - IANA timezone name, omit for the viewer's local time
+ * @param locale - Locale to format in, omit for the viewer's locale
+ */
+export function formatTime(dateString: string, timeZone?: string, locale?: string): string {
+  return new Intl.DateTimeFormat(locale, {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: isValidTimezone(timeZone) ? timeZone : undefined,
+  }).format(new Date(dateString));
+}
+
+/**
+ * Compact start date and time for event cards, e.g. "Sat, Mar 13, 7:00 PM GMT+1"
+ *
+ * @param event - Event to format
+ * @param options - Timezone mode and locale
+ */
+export function formatEventStart(event: Event, options: DateFormatOptions = {}): string {
+  return new Intl.DateTimeFormat(options.locale, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+    timeZone: resolveTimeZone(event, options.timeZone),
+  }).format(new Date(event.startDate));
+}
+
+/**
+ * Full date and time of an event, including its end when known
+ * Events spanning several days show the whole date range
+ *
+ * @param event - Event to format
+ * @param options - Timezone mode and locale
+ * @returns Separate date and time lines
+ */
+export function formatEventSchedule(event: Event, options: DateFormatOptions = {}): FormattedSchedule {
+  const timeZone = resolveTimeZone(event, options.timeZone);
+  const { start, end } = getEventInstants(event);
+
+  const dateFormat = new Intl.DateTimeFormat(options.locale, {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone,
+  });
+
+  if (!end) {
+    const timeFormat = new Intl.DateTimeFormat(options.locale, {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZoneName: "short",
+      timeZone,
+    });
+    return { date: dateFormat.format(start), time: timeFormat.format(start) };
+  }
+
+  const zone = timeZone ?? getViewerTimezone();
+  const sameDay = isSameDay(start, end, zone);
+  // formatRange prints one timezone name for both ends, which is wrong across a DST change
+  const sameOffset = getTimezoneOffsetMinutes(start, zone) === getTimezoneOffsetMinutes(end, zone);
+
+  // Multi-day events name the day alongside each time
+  const timeFormat = new Intl.DateTimeFormat(options.locale, {
+    weekday: sameDay ? undefined : "short",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+    timeZone,
+  });
+  const time = sameDay && sameOffset
+    ? timeFormat.formatRange(start, end)
+    : `${timeFormat.format(start)} – ${timeFormat.format(end)}`;
+
+  return { date: sameDay ? dateFormat.format(start) : dateFormat.formatRange(start, end), time };
+}
+
+/**
+ * Start time in the viewer's local time, when it differs from the event's
+ * e.g. "Sat, 1:00 PM EST" for a 7pm Lagos event viewed from New York in winter
+ *
+ * @param event - Event to format
+ * @param locale - Locale to format in, omit for the viewer's locale
+ * @returns Formatted local time, or undefined if the viewer shares the event's UTC offset
+ */
+export function formatViewerLocalStart(event: Event, locale?: string): string | undefined {
+  const timeZone = resolveTimeZone(event);
+  if (!timeZone) {
+    return undefined; // Already shown in local time
+  }
+
+  const start = new Date(event.startDate);
+  const viewerTimeZone = getViewerTimezone();
+  if (getTimezoneOffsetMinutes(start, timeZone) === getTimezoneOffsetMinutes(start, viewerTimeZone)) {
+    return undefined;
+  }
+
+  return new Intl.DateTimeFormat(locale, {
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+    timeZone: viewerTimeZone,
+  }).format(start);
+}
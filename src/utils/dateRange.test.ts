@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { findPresetForRange, getCustomRange, getPresetRange } from "./dateRange";
+
+// The local timezone is pinned to America/New_York in vitest.config.mjs,
+// which springs forward on March 8 2026 and falls back on November 1 2026.
+// Local midnight is 05:00Z under EST and 04:00Z under EDT.
+
+// Local noon on a calendar day
+function localNoon(year: number, month: number, day: number): Date {
+  return new Date(year, month - 1, day, 12);
+}
+
+describe("getPresetRange", () => {
+  describe("weekend", () => {
+    it("covers Saturday and Sunday when searched midweek", () => {
+      expect(getPresetRange("weekend", localNoon(2026, 3, 11))).toEqual({
+        startDate: "2026-03-14T04:00:00.000Z",
+        endDate: "2026-03-16T03:59:59.999Z",
+      });
+    });
+
+    it("starts today when searched on a Saturday", () => {
+      expect(getPresetRange("weekend", localNoon(2026, 3, 14))).toEqual({
+        startDate: "2026-03-14T04:00:00.000Z",
+        endDate: "2026-03-16T03:59:59.999Z",
+      });
+    });
+
+    // The old `6 - getDay()` math jumped to the following Saturday here
+    it("stays on the current weekend when searched on a Sunday", () => {
+      expect(getPresetRange("weekend", localNoon(2026, 3, 15))).toEqual({
+        startDate: "2026-03-15T04:00:00.000Z",
+        endDate: "2026-03-16T03:59:59.999Z",
+      });
+    });
+
+    it("covers a Sunday that springs forward", () => {
+      expect(getPresetRange("weekend", localNoon(2026, 3, 8))).toEqual({
+        startDate: "2026-03-08T05:00:00.000Z",
+        endDate: "2026-03-09T03:59:59.999Z",
+      });
+    });
+  });
+
+  describe("next-weekend", () => {
+    it("skips the current weekend when searched midweek", () => {
+      expect(getPresetRange("next-weekend", localNoon(2026, 3, 11))).toEqual({
+        startDate: "2026-03-21T04:00:00.000Z",
+        endDate: "2026-03-23T03:59:59.999Z",
+      });
+    });
+
+    it("is the following weekend when searched on a Sunday", () => {
+      expect(getPresetRange("next-weekend", localNoon(2026, 3, 15))).toEqual({
+        startDate: "2026-03-21T04:00:00.000Z",
+        endDate: "2026-03-23T03:59:59.999Z",
+      });
+    });
+  });
+
+  describe("this-week", () => {
+    it("runs from today to Sunday", () => {
+      expect(getPresetRange("this-week", localNoon(2026, 3, 9))).toEqual({
+        startDate: "2026-03-09T04:00:00.000Z",
+        endDate: "2026-03-16T03:59:59.999Z",
+      });
+    });
+
+    it("is just today when today is Sunday", () => {
+      expect(getPresetRange("this-week", localNoon(2026, 3, 15))).toEqual({
+        startDate: "2026-03-15T04:00:00.000Z",
+        endDate: "2026-03-16T03:59:59.999Z",
+      });
+    });
+  });
+
+  describe("this-month", () => {
+    it("is just today on the last day of the month", () => {
+      expect(getPresetRange("this-month", localNoon(2026, 1, 31))).toEqual({
+        startDate: "2026-01-31T05:00:00.000Z",
+        endDate: "2026-02-01T04:59:59.999Z",
+      });
+    });
+
+    it("ends on the last day of a short month", () => {
+      expect(getPresetRange("this-month", localNoon(2026, 2, 10))).toEqual({
+        startDate: "2026-02-10T05:00:00.000Z",
+        endDate: "2026-03-01T04:59:59.999Z",
+      });
+    });
+
+    it("ends on February 29 in a leap year", () => {
+      expect(getPresetRange("this-month", localNoon(2028, 2, 10)).endDate).toBe("2028-03-01T04:59:59.999Z");
+    });
+  });
+
+  describe("next-7-days", () => {
+    it("rolls over into the next month", () => {
+      expect(getPresetRange("next-7-days", localNoon(2026, 1, 28))).toEqual({
+        startDate: "2026-01-28T05:00:00.000Z",
+        endDate: "2026-02-04T04:59:59.999Z",
+      });
+    });
+
+    it("rolls over into the next year", () => {
+      expect(getPresetRange("next-7-days", localNoon(2026, 12, 29))).toEqual({
+        startDate: "2026-12-29T05:00:00.000Z",
+        endDate: "2027-01-05T04:59:59.999Z",
+      });
+    });
+
+    it("keeps to local day boundaries across the spring-forward", () => {
+      expect(getPresetRange("next-7-days", localNoon(2026, 3, 5))).toEqual({
+        startDate: "2026-03-05T05:00:00.000Z",
+        endDate: "2026-03-12T03:59:59.999Z",
+      });
+    });
+
+    it("keeps to local day boundaries across the fall-back", () => {
+      expect(getPresetRange("next-7-days", localNoon(2026, 10, 29))).toEqual({
+        startDate: "2026-10-29T04:00:00.000Z",
+        endDate: "2026-11-05T04:59:59.999Z",
+      });
+    });
+  });
+
+  describe("tonight", () => {
+    it("runs from 5pm to 4am, even when the clocks change overnight", () => {
+      expect(getPresetRange("tonight", localNoon(2026, 3, 7))).toEqual({
+        startDate: "2026-03-07T22:00:00.000Z",
+        endDate: "2026-03-08T08:00:00.000Z",
+      });
+    });
+  });
+
+  it("gives tomorrow as the whole next day", () => {
+    expect(getPresetRange("tomorrow", localNoon(2026, 10, 31))).toEqual({
+      startDate: "2026-11-01T04:00:00.000Z",
+      endDate: "2026-11-02T04:59:59.999Z",
+    });
+  });
+});
+
+describe("getCustomRange", () => {
+  it("covers whole local days", () => {
+    expect(getCustomRange("2026-10-31", "2026-11-01")).toEqual({
+      startDate: "2026-10-31T04:00:00.000Z",
+      endDate: "2026-11-02T04:59:59.999Z",
+    });
+  });
+
+  it("defaults to a single day", () => {
+    expect(getCustomRange("2026-03-08")).toEqual({
+      startDate: "2026-03-08T05:00:00.000Z",
+      endDate: "2026-03-09T03:59:59.999Z",
+    });
+  });
+
+  it("rejects invalid dates and ranges that end before they start", () => {
+    expect(getCustomRange("2026-13-45")).toBeNull();
+    expect(getCustomRange("next tuesday")).toBeNull();
+    expect(getCustomRange("2026-03-10", "2026-03-09")).toBeNull();
+  });
+});
+
+describe("findPresetForRange", () => {
+  it("finds the preset that produced a range", () => {
+    const now = localNoon(2026, 3, 15);
+    expect(findPresetForRange(getPresetRange("next-weekend", now), now)).toBe("next-weekend");
+  });
+
+  it("returns nothing for custom ranges", () => {
+    const now = localNoon(2026, 3, 15);
+    expect(findPresetForRange(getCustomRange("2026-04-01", "2026-04-03")!, now)).toBeUndefined();
+    expect(findPresetForRange({ startDate: "2026-04-01T04:00:00.000Z" }, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Date Range Utilities
+ *
+ * Builds the date ranges behind the search filter's presets ("Tonight",
+ * "This Weekend", ...) and custom ranges from date inputs.
+ *
+ * Ranges use the viewer's local calendar and are inclusive: they run from
+ * the first millisecond of the start day to the last millisecond of the end
+ * day, matching the `start.gte` / `start.lte` filters we send to PredictHQ.
+ * Days are stepped with setDate rather than adding milliseconds, so ranges
+ * stay on day boundaries across daylight saving changes.
+ */
+
+export type DatePreset =
+  | "tonight"
+  | "today"
+  | "tomorrow"
+  | "weekend"
+  | "next-weekend"
+  | "this-week"
+  | "next-7-days"
+  | "this-month";
+
+export interface DatePresetOption {
+  value: DatePreset;
+  name: string;
+}
+
+// Presets in the order they are offered to users
+export const DATE_PRESETS: DatePresetOption[] = [
+  { value: "tonight", name: "Tonight" },
+  { value: "today", name: "Today" },
+  { value: "tomorrow", name: "Tomorrow" },
+  { value: "weekend", name: "This Weekend" },
+  { value: "next-weekend", name: "Next Weekend" },
+  { value: "this-week", name: "This Week" },
+  { value: "next-7-days", name: "Next 7 Days" },
+  { value: "this-month", name: "This Month" },
+];
+
+/**
+ * A date range as ISO strings, ready to use as EventFilters.startDate/endDate
+ */
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+const TONIGHT_START_HOUR = 17; // 5pm
+const TONIGHT_END_HOUR = 4; // 4am the next morning
+
+/**
+ * Midnight at the start of a day, offset by a number of days
+ */
+function startOfDay(date: Date, addDays: number = 0): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + addDays);
+  return result;
+}
+
+/**
+ * Range from the start of one day to the end of another (inclusive)
+ */
+function dayRange(firstDay: Date, lastDay: Date): DateRange {
+  const end = startOfDay(lastDay, 1);
+  end.setMilliseconds(-1);
+  return { startDate: startOfDay(firstDay).toISOString(), endDate: end.toISOString() };
+}
+
+/**
+ * Saturday of the current weekend
+ * On a Sunday this is yesterday, not next week's Saturday
+ */
+function getWeekendSaturday(today: Date): Date {
+  const day = today.getDay();
+  return startOfDay(today, day === 0 ? -1 : 6 - day);
+}
+
+/**
+ * Get the date range for a preset
+ *
+ * @param preset - Preset to resolve
+ * @param now - Current time (defaults to now)
+ * @returns Range in the viewer's local time
+ */
+export function getPresetRange(preset: DatePreset, now: Date = new Date()): DateRange {
+  const today = startOfDay(now);
+
+  switch (preset) {
+    case "tonight": {
+      const start = new Date(today);
+      start.setHours(TONIGHT_START_HOUR);
+      const end = startOfDay(today, 1);
+      end.setHours(TONIGHT_END_HOUR);
+      return { startDate: start.toISOString(), endDate: end.toISOString() };
+    }
+    case "today":
+      return dayRange(today, today);
+    case "tomorrow":
+      return dayRange(startOfDay(today, 1), startOfDay(today, 1));
+    case "weekend": {
+      // Start today if the weekend has already begun
+      const saturday = getWeekendSaturday(today);
+      const first = saturday < today ? today : saturday;
+      return dayRange(first, startOfDay(saturday, 1));
+    }
+    case "next-weekend": {
+      const saturday = startOfDay(getWeekendSaturday(today), 7);
+      return dayRange(saturday, startOfDay(saturday, 1));
+    }
+    case "this-week": {
+      // Weeks run Monday to Sunday
+      const daysUntilSunday = (7 - today.getDay()) % 7;
+      return dayRange(today, startOfDay(today, daysUntilSunday));
+    }
+    case "next-7-days":
+      return dayRange(today, startOfDay(today, 6));
+    case "this-month": {
+      const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+      return dayRange(today, lastDay);
+    }
+  }
+}
+
+/**
+ * Parse a date input value (YYYY-MM-DD) as local midnight
+ * `new Date("2027-03-13")` would be UTC midnight, which is the previous day west of UTC
+ */
+export function parseDateInputValue(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  // The Date constructor rolls over out-of-range parts (e.g. month 13) instead of failing
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Format a date as a date input value (YYYY-MM-DD) in local time
+ */
+export function toDateInputValue(date: Date | string | undefined): string {
+  if (!date) {
+    return "";
+  }
+  const value = new Date(date);
+  if (isNaN(value.getTime())) {
+    return "";
+  }
+  const month = String(value.getMonth() + 1).padStart(2, "0");
+  const day = String(value.getDate()).padStart(2, "0");
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get the range covering whole days between two date input values
+ *
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD), defaults to the first day
+ * @returns Range, or null if a date is invalid or the range ends before it starts
+ */
+export function getCustomRange(from: string, to?: string): DateRange | null {
+  const first = parseDateInputValue(from);
+  const last = to ? parseDateInputValue(to) : first;
+  if (!first || !last || last < first) {
+    return null;
+  }
+  return dayRange(first, last);
+}
+
+/**
+ * Find the preset that produced a range, e.g. when restoring filters from a URL
+ *
+ * @param range - Start and end dates from the filters
+ * @param now - Current time (defaults to now)
+ * @returns Matching preset, or undefined if the range isn't a current preset
+ */
+export function findPresetForRange(
+  range: Partial<DateRange>,
+  now: Date = new Date()
+): DatePreset | undefined {
+  if (!range.startDate || !range.endDate) {
+    return undefined;
+  }
+  const start = new Date(range.startDate).getTime();
+  const end = new Date(range.endDate).getTime();
+
+  return DATE_PRESETS.find(({ value }) => {
+    const preset = getPresetRange(value, now);
+    return new Date(preset.startDate).getTime() === start && new Date(preset.endDate).getTime() === end;
+  })?.value;
+}
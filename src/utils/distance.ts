@@ -0,0 +1,67 @@
+/**
+ * Distance Utilities
+ * 
+ * Great-circle distance between two coordinates using the haversine formula.
+ */
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Convert degrees to radians
+ */
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Get the distance between two points in miles
+ * 
+ * @param lat1 - Latitude of the first point
+ * @param lon1 - Longitude of the first point
+ * @param lat2 - Latitude of the second point
+ * @param lon2 - Longitude of the second point
+ * @returns Distance in miles
+ */
+export function haversineDistanceMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+// Units distances are shown in
+export type DistanceUnit = "mi" | "km";
+
+export const KM_PER_MILE = 1.60934;
+
+/**
+ * Convert a distance in miles to the given unit
+ */
+export function fromMiles(miles: number, unit: DistanceUnit): number {
+  return unit === "km" ? miles * KM_PER_MILE : miles;
+}
+
+/**
+ * Convert a distance in the given unit to miles
+ * Rounded to two decimal places so it reads cleanly in URLs
+ */
+export function toMiles(distance: number, unit: DistanceUnit): number {
+  const miles = unit === "km" ? distance / KM_PER_MILE : distance;
+  return Math.round(miles * 100) / 100;
+}
+
+/**
+ * Format a distance for display, e.g. "2.4 km" or "12 mi"
+ * One decimal place under 10, whole numbers above
+ *
+ * @param miles - Distance in miles
+ * @param unit - Unit to show it in
+ * @returns Formatted distance with its unit
+ */
+export function formatDistance(miles: number, unit: DistanceUnit): string {
+  const distance = fromMiles(miles, unit);
+  const rounded = distance < 10 ? Math.round(distance * 10) / 10 : Math.round(distance);
+  return `${rounded.toLocaleString()} ${unit}`;
+}
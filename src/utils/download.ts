@@ -0,0 +1,39 @@
+/**
+ * Download Utilities
+ * 
+ * Lets the browser save generated content (calendar files, exports) as a file.
+ */
+
+/**
+ * Trigger a download of text content as a file
+ * 
+ * @param content - File contents
+ * @param filename - Suggested file name, e.g. "event.ics"
+ * @param mimeType - MIME type of the content, e.g. "text/calendar"
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Turn arbitrary text into a safe file name, e.g. "Lagos Jazz: Live!" -> "lagos-jazz-live"
+ */
+export function toFileName(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "event"
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Event Categories and Labels
+ * 
+ * The PredictHQ categories and labels we offer as search filters.
+ * Values are sent to the API as-is; names are shown in the UI.
+ * 
+ * Categories: https://docs.predicthq.com/resources/events#categories
+ */
+
+export interface FilterOption {
+  value: string;
+  name: string;
+}
+
+// Attendance-based categories (events people actually go to)
+export const EVENT_CATEGORIES: FilterOption[] = [
+  { value: "concerts", name: "Concerts" },
+  { value: "sports", name: "Sports" },
+  { value: "conferences", name: "Conferences" },
+  { value: "expos", name: "Expos" },
+  { value: "community", name: "Community" },
+  { value: "performing-arts", name: "Performing Arts" },
+  { value: "festivals", name: "Festivals" },
+  { value: "academic", name: "Academic" },
+];
+
+// Common labels found in PredictHQ labels / phq_labels
+export const EVENT_LABELS: FilterOption[] = [
+  { value: "music", name: "Music" },
+  { value: "technology", name: "Technology" },
+  { value: "business", name: "Business" },
+  { value: "food", name: "Food & Drink" },
+  { value: "family", name: "Family" },
+  { value: "comedy", name: "Comedy" },
+  { value: "theatre", name: "Theatre" },
+  { value: "education", name: "Education" },
+  { value: "sport", name: "Sport" },
+  { value: "outdoor", name: "Outdoor" },
+  { value: "nightlife", name: "Nightlife" },
+];
+
+/**
+ * Split a comma-separated filter value into its parts
+ */
+export function splitFilterValue(value?: string): string[] {
+  return value ? value.split(",").filter(Boolean) : [];
+}
+
+/**
+ * Join selected values into a comma-separated filter value
+ * Returns undefined when nothing is selected so the filter is omitted
+ */
+export function joinFilterValue(values: string[]): string | undefined {
+  return values.length > 0 ? values.join(",") : undefined;
+}
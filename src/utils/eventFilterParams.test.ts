@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { normalizeEventFilters, parseEventFilters, serializeEventFilters } from "./eventFilterParams";
+
+describe("parseEventFilters", () => {
+  it("round-trips serialized filters", () => {
+    const filters = {
+      query: "jazz",
+      latitude: 6.5244,
+      longitude: 3.3792,
+      radius: 25,
+      category: "concerts,festivals",
+      price: { min: 0, max: 50 },
+      sort: "soonest" as const,
+    };
+    expect(parseEventFilters(serializeEventFilters(filters))).toEqual(filters);
+  });
+
+  it("accepts every offered sort order and nothing else", () => {
+    for (const sort of ["popular", "soonest", "attendance", "relevance", "nearest"]) {
+      expect(parseEventFilters(new URLSearchParams({ sort })).sort).toBe(sort);
+    }
+    expect(parseEventFilters(new URLSearchParams({ sort: "-rank" })).sort).toBeUndefined();
+  });
+
+  it("drops malformed values from hand-edited URLs", () => {
+    const params = new URLSearchParams({
+      latitude: "91",
+      longitude: "3.3",
+      radius: "-5",
+      category: "concerts;drop table",
+      startDate: "2026-10-10T00:00:00.000Z",
+      endDate: "2026-10-01T00:00:00.000Z",
+      priceMin: "100",
+      priceMax: "50",
+      status: "active,bogus,active",
+      attendanceMode: "hybrid",
+    });
+    expect(parseEventFilters(params)).toEqual({ startDate: "2026-10-10T00:00:00.000Z", status: "active" });
+  });
+});
+
+describe("normalizeEventFilters", () => {
+  it("removes empty values", () => {
+    expect(normalizeEventFilters({ query: "", city: undefined, radius: 0 })).toEqual({});
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Event Filter Params
+ *
+ * Converts EventFilters to and from URL query parameters. Used both to send
+ * filters to our /api/events route handler and to keep the Discover page's
+ * filters in its URL, so searches survive reloads and can be shared.
+ *
+ * Parsing validates every value: anything malformed or out of range is
+ * dropped rather than passed on, since URLs can be edited by hand.
+ */
+
+import { AttendanceMode, EventFilters, EventSort } from "@/types/event";
+import { EVENT_STATUSES } from "./eventStatus";
+import { ATTENDANCE_MODES } from "./attendanceMode";
+import { EVENT_SORT_OPTIONS } from "./eventSort";
+
+const EVENT_STATUS_VALUES: string[] = EVENT_STATUSES.map((option) => option.value);
+
+// Limits for hand-edited URLs
+const MAX_TEXT_LENGTH = 200;
+const MAX_RADIUS_MILES = 1000;
+
+// Comma-separated list of slugs, e.g. "concerts,performing-arts"
+const SLUG_LIST_PATTERN = /^[a-z0-9-]+(,[a-z0-9-]+)*$/i;
+
+/**
+ * Serialize filters into URL query parameters
+ * Undefined and empty values are skipped
+ *
+ * @param filters - Search filters
+ * @returns URLSearchParams ready to append to a URL
+ */
+export function serializeEventFilters(filters: EventFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.query) params.set("query", filters.query);
+  if (filters.city) params.set("city", filters.city);
+  if (filters.latitude !== undefined) params.set("latitude", String(filters.latitude));
+  if (filters.longitude !== undefined) params.set("longitude", String(filters.longitude));
+  if (filters.radius !== undefined) params.set("radius", String(filters.radius));
+  if (filters.startDate) params.set("startDate", filters.startDate);
+  if (filters.endDate) params.set("endDate", filters.endDate);
+  if (filters.category) params.set("category", filters.category);
+  if (filters.label) params.set("label", filters.label);
+  if (filters.price?.min !== undefined) params.set("priceMin", String(filters.price.min));
+  if (filters.price?.max !== undefined) params.set("priceMax", String(filters.price.max));
+  if (filters.status) params.set("status", filters.status);
+  if (filters.attendanceMode) params.set("attendanceMode", filters.attendanceMode);
+  if (filters.sort) params.set("sort", filters.sort);
+
+  return params;
+}
+
+/**
+ * Parse a number from a query parameter
+ * Returns undefined for missing, non-numeric or out of range values
+ */
+function parseNumber(value: string | null, min: number, max: number): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return isFinite(parsed) && parsed >= min && parsed <= max ? parsed : undefined;
+}
+
+/**
+ * Parse a free-text query parameter, trimmed and length-limited
+ */
+function parseText(value: string | null): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+/**
+ * Parse a date query parameter, returning it unchanged if it's a valid date
+ */
+function parseDate(value: string | null): string | undefined {
+  if (!value || isNaN(new Date(value).getTime())) {
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Parse a comma-separated list of slugs (categories, labels)
+ */
+function parseSlugList(value: string | null): string | undefined {
+  return value && SLUG_LIST_PATTERN.test(value) ? value.toLowerCase() : undefined;
+}
+
+/**
+ * Parse URL query parameters back into filters
+ *
+ * @param params - Query parameters produced by serializeEventFilters (or a hand-edited URL)
+ * @returns Search filters containing only valid values
+ */
+export function parseEventFilters(params: { get(name: string): string | null }): EventFilters {
+  const filters: EventFilters = {};
+
+  const query = parseText(params.get("query"));
+  if (query) filters.query = query;
+
+  const city = parseText(params.get("city"));
+  if (city) filters.city = city;
+
+  // Coordinates only make sense as a pair
+  const latitude = parseNumber(params.get("latitude"), -90, 90);
+  const longitude = parseNumber(params.get("longitude"), -180, 180);
+  if (latitude !== undefined && longitude !== undefined) {
+    filters.latitude = latitude;
+    filters.longitude = longitude;
+  }
+
+  const radius = parseNumber(params.get("radius"), 0, MAX_RADIUS_MILES);
+  if (radius) filters.radius = radius;
+
+  const startDate = parseDate(params.get("startDate"));
+  if (startDate) filters.startDate = startDate;
+
+  // Drop an end date that comes before the start date
+  const endDate = parseDate(params.get("endDate"));
+  if (endDate && (!startDate || new Date(endDate) >= new Date(startDate))) {
+    filters.endDate = endDate;
+  }
+
+  const category = parseSlugList(params.get("category"));
+  if (category) filters.category = category;
+
+  const label = parseSlugList(params.get("label"));
+  if (label) filters.label = label;
+
+  // Drop a price range whose maximum is below its minimum
+  const priceMin = parseNumber(params.get("priceMin"), 0, Infinity);
+  const priceMax = parseNumber(params.get("priceMax"), 0, Infinity);
+  if ((priceMin !== undefined || priceMax !== undefined) && (priceMin ?? 0) <= (priceMax ?? Infinity)) {
+    filters.price = { min: priceMin, max: priceMax };
+  }
+
+  // Keep only known statuses
+  const status = parseSlugList(params.get("status"))
+    ?.split(",")
+    .filter((value, index, values) => EVENT_STATUS_VALUES.includes(value) && values.indexOf(value) === index)
+    .join(",");
+  if (status) filters.status = status;
+
+  const attendanceMode = params.get("attendanceMode");
+  if (attendanceMode && ATTENDANCE_MODES.some((option) => option.value === attendanceMode)) {
+    filters.attendanceMode = attendanceMode as AttendanceMode;
+  }
+
+  const sort = params.get("sort");
+  if (sort && EVENT_SORT_OPTIONS.some((option) => option.value === sort)) {
+    filters.sort = sort as EventSort;
+  }
+
+  return filters;
+}
+
+/**
+ * Remove empty and invalid values from filters
+ * (e.g. `{ query: undefined }` becomes `{}`)
+ */
+export function normalizeEventFilters(filters: EventFilters): EventFilters {
+  return parseEventFilters(serializeEventFilters(filters));
+}
@@ -4,6 +4,17 @@
  * Validates event IDs to check if they're valid for PredictHQ API
  */
 
+// Limits for event IDs sent to our API routes
+export const MAX_EVENT_ID_LENGTH = 100;
+export const MAX_BATCH_IDS = 250; // per /api/events/batch request
+
+/**
+ * Check if a value could be an event ID from any provider: a non-empty string of bounded length
+ */
+export function isWellFormedEventId(eventId: unknown): eventId is string {
+  return typeof eventId === "string" && eventId.trim().length > 0 && eventId.length <= MAX_EVENT_ID_LENGTH;
+}
+
 /**
  * Check if an event ID looks like it's from a different/old API
  * PredictHQ IDs are typically numeric or shorter alphanumeric strings
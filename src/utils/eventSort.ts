@@ -0,0 +1,58 @@
+/**
+ * Event Sort Orders
+ *
+ * The sort orders offered on Discover. All but "nearest" are passed to the
+ * event provider; "nearest" is applied in the browser, ordering the loaded
+ * results by their distance from the user (see sortEventsByDistance). The
+ * provider has no distance order, so nearer events may still be on pages
+ * that haven't loaded, and the option is labelled as such.
+ */
+
+import { Event, EventSort } from "@/types/event";
+import { haversineDistanceMiles } from "./distance";
+
+export interface EventSortOption {
+  value: EventSort;
+  name: string;
+}
+
+// Default first; also the valid values for the `sort` URL parameter
+export const EVENT_SORT_OPTIONS: EventSortOption[] = [
+  { value: "popular", name: "Most Popular" },
+  { value: "soonest", name: "Soonest First" },
+  { value: "attendance", name: "Biggest Attendance" },
+  { value: "relevance", name: "Best Match for Keywords" },
+  { value: "nearest", name: "Nearest Among Loaded Results" },
+];
+
+// Sort used when none is chosen
+export const DEFAULT_EVENT_SORT: EventSort = "popular";
+
+/**
+ * Get the distance from a point to an event's venue
+ *
+ * @param event - Event to measure to
+ * @param origin - Starting point, e.g. the user's location
+ * @returns Distance in miles, or undefined if the venue has no coordinates
+ */
+export function getEventDistanceMiles(event: Event, origin: { lat: number; lon: number }): number | undefined {
+  if (event.venue?.latitude === undefined || event.venue?.longitude === undefined) {
+    return undefined;
+  }
+  return haversineDistanceMiles(origin.lat, origin.lon, event.venue.latitude, event.venue.longitude);
+}
+
+/**
+ * Order events nearest first
+ * Events without venue coordinates (e.g. online events) go last, in their original order
+ *
+ * @param events - Events to sort (not modified)
+ * @param origin - Point to measure from
+ * @returns A new, sorted array
+ */
+export function sortEventsByDistance(events: Event[], origin: { lat: number; lon: number }): Event[] {
+  return events
+    .map((event, index) => ({ event, index, distance: getEventDistanceMiles(event, origin) ?? Infinity }))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)
+    .map(({ event }) => event);
+}
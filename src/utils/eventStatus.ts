@@ -0,0 +1,55 @@
+/**
+ * Event Status
+ *
+ * Names, badge colors and search defaults for event lifecycle states
+ * (Event.status).
+ */
+
+import { Event, EventStatus, SavedEvent } from "@/types/event";
+
+export interface EventStatusOption {
+  value: EventStatus;
+  name: string;
+  badgeClassName: string; // Tailwind classes for the status badge
+}
+
+// Every status, in the order they're offered as search filters
+export const EVENT_STATUSES: EventStatusOption[] = [
+  { value: "active", name: "Active", badgeClassName: "bg-green-500 text-white" },
+  { value: "predicted", name: "Predicted", badgeClassName: "bg-indigo-500 text-white" },
+  { value: "postponed", name: "Postponed", badgeClassName: "bg-amber-500 text-white" },
+  { value: "cancelled", name: "Cancelled", badgeClassName: "bg-red-600 text-white" },
+  { value: "deleted", name: "Removed", badgeClassName: "bg-gray-600 text-white" },
+];
+
+// Statuses searched when the user hasn't chosen any
+export const DEFAULT_SEARCH_STATUSES: EventStatus[] = ["active", "predicted"];
+
+/**
+ * Get an event's status, treating events without one as active
+ */
+export function getEventStatus(event: Event): EventStatus {
+  return event.status || "active";
+}
+
+/**
+ * Get the display details for a status
+ */
+export function getEventStatusOption(status: EventStatus): EventStatusOption {
+  return EVENT_STATUSES.find((option) => option.value === status) || EVENT_STATUSES[0];
+}
+
+/**
+ * Whether an event's status is worth a badge (anything but active)
+ */
+export function hasStatusBadge(event: Event): boolean {
+  return getEventStatus(event) !== "active";
+}
+
+/**
+ * Whether a saved event's status has changed since it was saved
+ * (e.g. it has been cancelled or postponed)
+ */
+export function hasStatusChanged(saved: SavedEvent): boolean {
+  return !!saved.event && saved.savedStatus !== undefined && getEventStatus(saved.event) !== saved.savedStatus;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { formatDuration, formatExpectedAttendance, getImpactLevel, hasInsights } from "./insights";
+
+describe("hasInsights", () => {
+  it("is false when there's nothing to show", () => {
+    expect(hasInsights(undefined)).toBe(false);
+    expect(hasInsights({})).toBe(false);
+    expect(hasInsights({ labels: [] })).toBe(false);
+  });
+
+  it("is true for any single field", () => {
+    expect(hasInsights({ attendance: 1200 })).toBe(true);
+    expect(hasInsights({ rank: 0 })).toBe(true);
+    expect(hasInsights({ localRank: 55 })).toBe(true);
+    expect(hasInsights({ predictedSpend: 250000 })).toBe(true);
+    expect(hasInsights({ durationSeconds: 7200 })).toBe(true);
+    expect(hasInsights({ labels: [{ label: "music", weight: 0.8 }] })).toBe(true);
+  });
+});
+
+describe("getImpactLevel", () => {
+  it("puts ranks into PredictHQ's levels", () => {
+    expect(getImpactLevel(0).name).toBe("Minor");
+    expect(getImpactLevel(20).name).toBe("Minor");
+    expect(getImpactLevel(21).name).toBe("Moderate");
+    expect(getImpactLevel(100).name).toBe("Major");
+  });
+});
+
+describe("formatExpectedAttendance", () => {
+  it("rounds to two significant digits", () => {
+    expect(formatExpectedAttendance(12400)).toBe("~12k expected");
+    expect(formatExpectedAttendance(850)).toBe("~850 expected");
+  });
+});
+
+describe("formatDuration", () => {
+  it("uses the largest sensible unit", () => {
+    expect(formatDuration(45 * 60)).toBe("45 min");
+    expect(formatDuration(90 * 60)).toBe("1 hr 30 min");
+    expect(formatDuration(3 * 24 * 60 * 60)).toBe("3 days");
+  });
+});
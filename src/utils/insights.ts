@@ -0,0 +1,100 @@
+/**
+ * Event Insights Formatting
+ *
+ * Display helpers for PredictHQ's predicted attendance and impact data
+ * (Event.insights). Ranks are 0-100 and grouped into PredictHQ's five
+ * impact levels.
+ */
+
+import { EventInsights } from "@/types/event";
+
+export interface ImpactLevel {
+  name: string; // e.g. "Significant"
+  min: number; // lowest rank in this level
+}
+
+// PredictHQ's rank levels, lowest first
+export const IMPACT_LEVELS: ImpactLevel[] = [
+  { name: "Minor", min: 0 },
+  { name: "Moderate", min: 21 },
+  { name: "Important", min: 41 },
+  { name: "Significant", min: 61 },
+  { name: "Major", min: 81 },
+];
+
+/**
+ * Get the impact level for a 0-100 rank
+ */
+export function getImpactLevel(rank: number): ImpactLevel {
+  return [...IMPACT_LEVELS].reverse().find((level) => rank >= level.min) || IMPACT_LEVELS[0];
+}
+
+/**
+ * Format a number compactly to two significant digits, e.g. 12,400 -> "12k"
+ */
+function formatCompact(value: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumSignificantDigits: 2 })
+    .format(value)
+    .toLowerCase();
+}
+
+/**
+ * Format predicted attendance for a card chip, e.g. "~12k expected"
+ *
+ * @param attendance - Predicted number of attendees
+ * @returns Short label
+ */
+export function formatExpectedAttendance(attendance: number): string {
+  return `~${formatCompact(attendance)} expected`;
+}
+
+/**
+ * Format predicted attendance in full, e.g. "12,400 people"
+ */
+export function formatAttendance(attendance: number): string {
+  return `${Math.round(attendance).toLocaleString()} ${attendance === 1 ? "person" : "people"}`;
+}
+
+/**
+ * Format a predicted spend in US dollars, e.g. "$1.2M"
+ */
+export function formatPredictedSpend(spend: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(spend);
+}
+
+/**
+ * Format a duration, e.g. "3 hr 30 min" or "2 days"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    const rest = minutes % 60;
+    return rest > 0 ? `${hours} hr ${rest} min` : `${hours} hr`;
+  }
+  const days = Math.round(hours / 24);
+  return `${days} day${days !== 1 ? "s" : ""}`;
+}
+
+/**
+ * Whether there's anything in the insights worth showing
+ */
+export function hasInsights(insights: EventInsights | undefined): insights is EventInsights {
+  return (
+    !!insights &&
+    (insights.attendance !== undefined ||
+      insights.rank !== undefined ||
+      insights.localRank !== undefined ||
+      insights.predictedSpend !== undefined ||
+      insights.durationSeconds !== undefined ||
+      (insights.labels?.length ?? 0) > 0)
+  );
+}
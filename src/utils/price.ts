@@ -0,0 +1,79 @@
+/**
+ * Price Utilities
+ *
+ * Shared price display and price filter matching for events.
+ */
+
+import { Event, EventFilters } from "@/types/event";
+
+// The price filter options in SearchFilters are in US dollars
+const FILTER_CURRENCY = "USD";
+
+/**
+ * Format an amount in the given currency, e.g. "$25" or "NGN 5,000"
+ */
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch (error) {
+    // Unknown currency code
+    return `${currency} ${amount}`;
+  }
+}
+
+/**
+ * Format an event's price for display
+ *
+ * @param price - Event price, undefined when the provider doesn't know it
+ * @returns "Price unknown", "Free", "$25" or "$25 - $40"
+ */
+export function formatPrice(price: Event["price"]): string {
+  if (!price || (price.min === undefined && price.max === undefined)) {
+    return price?.display || "Price unknown";
+  }
+
+  const min = price.min ?? price.max!;
+  const max = price.max ?? price.min!;
+
+  if (max === 0) {
+    return "Free";
+  }
+  if (min !== max) {
+    return `${formatAmount(min, price.currency)} - ${formatAmount(max, price.currency)}`;
+  }
+  return formatAmount(min, price.currency);
+}
+
+/**
+ * Check whether an event's price falls in a price filter range
+ * Events with an unknown price never match, since we can't confirm them
+ *
+ * @param event - Event to check
+ * @param filter - Price range from EventFilters (in USD)
+ * @returns True if the event's price range overlaps the filter range
+ */
+export function matchesPriceFilter(event: Event, filter: NonNullable<EventFilters["price"]>): boolean {
+  const price = event.price;
+  if (!price || (price.min === undefined && price.max === undefined)) {
+    return false;
+  }
+
+  const min = price.min ?? price.max!;
+  const max = price.max ?? price.min!;
+
+  // A free event is free in any currency
+  if (max === 0) {
+    return (filter.min ?? 0) === 0;
+  }
+
+  // We don't convert currencies, so only compare amounts in the filter's currency
+  if (price.currency !== FILTER_CURRENCY) {
+    return false;
+  }
+
+  return max >= (filter.min ?? 0) && (filter.max === undefined || min <= filter.max);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { SavedEvent } from "@/types/event";
+import { parseSavedEventsImport } from "./savedEventsTransfer";
+
+const OLD_API_ID = "abcdefghijklmnop1234"; // 20 alphanumeric characters, from the previous events API
+
+// An export file containing the given entries
+function exportFile(events: unknown[], collections: unknown[] = []): string {
+  return JSON.stringify({ format: "nearnow-saved-events", version: 2, exportedAt: "", collections, events });
+}
+
+function entry(id: string, fields: Partial<SavedEvent> = {}): Partial<SavedEvent> {
+  return { id, provider: "predicthq", savedAt: "2026-10-01T12:00:00.000Z", ...fields };
+}
+
+describe("parseSavedEventsImport", () => {
+  it("rejects files that aren't saved event exports", () => {
+    expect(() => parseSavedEventsImport("not json", [], [])).toThrow("isn't valid JSON");
+    expect(() => parseSavedEventsImport(JSON.stringify({ events: [] }), [], [])).toThrow("isn't a NearNow");
+  });
+
+  it("reports duplicates of saved events and of earlier entries", () => {
+    const existing: SavedEvent[] = [{ id: "abc123", provider: "predicthq", savedAt: "2026-10-01T12:00:00.000Z" }];
+    const result = parseSavedEventsImport(exportFile([entry("abc123"), entry("def456"), entry("def456")]), existing, []);
+    expect(result.events.map((saved) => saved.id)).toEqual(["def456"]);
+    expect(result.duplicates).toEqual(["abc123", "def456"]);
+  });
+
+  it("checks IDs from PredictHQ and from unknown providers", () => {
+    const result = parseSavedEventsImport(
+      exportFile([
+        entry(OLD_API_ID),
+        entry(`${OLD_API_ID}2`, { provider: "unknown" }),
+        entry("not-a-predicthq-id-at-all", { provider: undefined }),
+      ]),
+      [],
+      []
+    );
+    expect(result.events).toEqual([]);
+    expect(result.unknown).toEqual([OLD_API_ID, `${OLD_API_ID}2`]);
+    expect(result.invalid).toEqual(["not-a-predicthq-id-at-all"]);
+  });
+
+  it("skips the PredictHQ ID rules for the active provider when it has its own IDs", () => {
+    const result = parseSavedEventsImport(exportFile([entry(OLD_API_ID, { provider: "fixture" })]), [], [], "fixture");
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0].provider).toBe("fixture");
+  });
+
+  it("applies the PredictHQ ID rules to entries claiming a provider that isn't active", () => {
+    const result = parseSavedEventsImport(
+      exportFile([entry(OLD_API_ID, { provider: "fixture" })]),
+      [],
+      [],
+      "predicthq"
+    );
+    expect(result.events).toEqual([]);
+    expect(result.unknown).toEqual([OLD_API_ID]);
+  });
+
+  it("keeps the ID but drops a snapshot with malformed fields", () => {
+    const snapshot = {
+      id: "abc123",
+      name: "Jazz Night",
+      description: "",
+      startDate: "2026-11-01T19:00:00.000Z",
+      endDate: "2026-11-01T22:00:00.000Z",
+      timezone: "Africa/Lagos",
+      url: "",
+      isOnline: false,
+    };
+    const result = parseSavedEventsImport(
+      exportFile([
+        entry("abc123", { event: snapshot, refreshedAt: "2026-10-01T12:00:00.000Z" }),
+        entry("def456", { event: { ...snapshot, id: "def456", venue: { name: {}, address: "" } } as never }),
+        entry("ghi789", { event: { ...snapshot, id: "ghi789", insights: { attendance: "lots" } } as never }),
+        entry("jkl012", { event: { ...snapshot, id: "jkl012", status: "imaginary" } as never }),
+      ]),
+      [],
+      []
+    );
+    expect(result.events.map((saved) => saved.id)).toEqual(["abc123", "def456", "ghi789", "jkl012"]);
+    expect(result.events[0].event).toEqual(snapshot);
+    expect(result.events[0].refreshedAt).toBe("2026-10-01T12:00:00.000Z");
+    expect(result.events.slice(1).map((saved) => saved.event)).toEqual([undefined, undefined, undefined]);
+    expect(result.events[1].refreshedAt).toBeUndefined();
+  });
+
+  it("cleans up notes and tags like the saved events slice does", () => {
+    const result = parseSavedEventsImport(
+      exportFile([entry("abc123", { note: `  ${"x".repeat(2500)}  `, tags: [" Work ", "work", 7 as unknown as string] })]),
+      [],
+      []
+    );
+    expect(result.events[0].note).toBe("x".repeat(2000));
+    expect(result.events[0].tags).toEqual(["work"]);
+  });
+
+  it("drops blank notes", () => {
+    const result = parseSavedEventsImport(exportFile([entry("abc123", { note: "   " })]), [], []);
+    expect(result.events[0].note).toBeUndefined();
+  });
+
+  it("maps collections by name and ignores collection IDs that aren't strings", () => {
+    const result = parseSavedEventsImport(
+      exportFile(
+        [entry("abc123", { collectionIds: ["c1", "c2", { id: "c1" } as unknown as string, 42 as unknown as string] })],
+        [
+          { id: "c1", name: "Date nights", createdAt: "2026-09-01T00:00:00.000Z" },
+          { id: "c2", name: "Conference trip", createdAt: "2026-09-02T00:00:00.000Z" },
+        ]
+      ),
+      [],
+      [{ id: "mine", name: "date nights", createdAt: "2026-08-01T00:00:00.000Z" }]
+    );
+    expect(result.events[0].collectionIds).toEqual(["mine", "c2"]);
+    expect(result.collections.map((collection) => collection.name)).toEqual(["Conference trip"]);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Saved Events Export / Import
+ *
+ * Moves saved events between browsers and machines:
+ * - JSON: a versioned file with full event snapshots, collections, tags and
+ *   notes, which can be imported again
+ * - CSV: one row per saved event, for spreadsheets (export only)
+ *
+ * Imported PredictHQ IDs, and IDs with no known provider (e.g. bookmarks
+ * migrated from the old ID-only storage), are checked with the rules in
+ * eventIdValidator, so IDs from the previous events API are reported instead
+ * of being saved again. The file's provider field can be edited by hand, so
+ * it only exempts an ID from the check when it names the provider the app is
+ * actually running with.
+ *
+ * Event snapshots are checked field by field before they're saved, since
+ * My Events renders them straight away. A snapshot that doesn't check out is
+ * dropped and the ID kept, so the background refresh fetches it again.
+ */
+
+import { Event, EventCollection, EventInsights, SavedEvent } from "@/types/event";
+import { normalizeNote, normalizeTags } from "./tags";
+import { isOldApiId, isValidPredictHQId } from "./eventIdValidator";
+import { EVENT_STATUSES, getEventStatus, getEventStatusOption } from "./eventStatus";
+
+const EXPORT_FORMAT = "nearnow-saved-events";
+// Version 2 added collections, tags and notes
+const EXPORT_VERSION = 2;
+
+// Providers whose event IDs don't follow PredictHQ's format, so eventIdValidator doesn't apply
+const NON_PREDICTHQ_ID_PROVIDERS = ["fixture"];
+
+/**
+ * Shape of an exported JSON file
+ */
+interface SavedEventsExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  collections?: EventCollection[]; // missing in version 1 files
+  events: SavedEvent[];
+}
+
+/**
+ * Outcome of reading an import file
+ */
+export interface SavedEventsImportResult {
+  events: SavedEvent[]; // new saved events to add
+  collections: EventCollection[]; // collections to create for them
+  duplicates: string[]; // IDs that are already saved (or repeated in the file)
+  unknown: string[]; // IDs from the previous events API
+  invalid: string[]; // entries that aren't valid saved events (IDs, or positions like "#3")
+}
+
+/**
+ * Build the JSON export of saved events
+ *
+ * @param saved - Saved events to export
+ * @param collections - Collections the events belong to
+ * @returns Contents of a .json file
+ */
+export function buildSavedEventsJson(saved: SavedEvent[], collections: EventCollection[]): string {
+  const data: SavedEventsExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections,
+    events: saved,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Escape a CSV field (RFC 4180)
+ * Values that a spreadsheet would run as a formula are prefixed with a quote
+ */
+function escapeCsvField(value: string | number | undefined): string {
+  let text = value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: Array<{
+  header: string;
+  value: (saved: SavedEvent, collectionNames: Map<string, string>) => string | number | undefined;
+}> = [
+  { header: "ID", value: (saved) => saved.id },
+  { header: "Name", value: (saved) => saved.event?.name },
+  { header: "Start", value: (saved) => saved.event?.startDate },
+  { header: "End", value: (saved) => saved.event?.endDate },
+  { header: "Timezone", value: (saved) => saved.event?.timezone },
+  { header: "Venue", value: (saved) => saved.event?.venue?.name },
+  { header: "Address", value: (saved) => saved.event?.venue?.address },
+  { header: "Category", value: (saved) => saved.event?.category },
+  { header: "Status", value: (saved) => saved.event && getEventStatusOption(getEventStatus(saved.event)).name },
+  { header: "URL", value: (saved) => saved.event?.url },
+  { header: "Expected Attendance", value: (saved) => saved.event?.insights?.attendance },
+  { header: "Rank", value: (saved) => saved.event?.insights?.rank },
+  { header: "Provider", value: (saved) => saved.provider },
+  { header: "Saved At", value: (saved) => saved.savedAt },
+  {
+    header: "Collections",
+    value: (saved, collectionNames) =>
+      saved.collectionIds
+        ?.map((id) => collectionNames.get(id))
+        .filter(Boolean)
+        .join("; "),
+  },
+  { header: "Tags", value: (saved) => saved.tags?.join("; ") },
+  { header: "Note", value: (saved) => saved.note },
+];
+
+/**
+ * Build the CSV export of saved events
+ *
+ * @param saved - Saved events to export
+ * @param collections - Collections the events belong to
+ * @returns Contents of a .csv file
+ */
+export function buildSavedEventsCsv(saved: SavedEvent[], collections: EventCollection[]): string {
+  const collectionNames = new Map(collections.map((collection) => [collection.id, collection.name]));
+  const rows = [
+    CSV_COLUMNS.map((column) => escapeCsvField(column.header)),
+    ...saved.map((entry) =>
+      CSV_COLUMNS.map((column) => escapeCsvField(column.value(entry, collectionNames)))
+    ),
+  ];
+  // The byte order mark tells Excel the file is UTF-8
+  return "\uFEFF" + rows.map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
+
+// Field checks for imported snapshots
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === "number" && isFinite(value));
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Check an event's venue, if it has one
+ */
+function isValidVenue(venue: unknown): boolean {
+  return (
+    venue === undefined ||
+    (isObject(venue) &&
+      typeof venue.name === "string" &&
+      typeof venue.address === "string" &&
+      isOptionalString(venue.city) &&
+      isOptionalNumber(venue.latitude) &&
+      isOptionalNumber(venue.longitude))
+  );
+}
+
+/**
+ * Check an event's price, if it has one
+ */
+function isValidPrice(price: unknown): boolean {
+  return (
+    price === undefined ||
+    (isObject(price) &&
+      isOptionalNumber(price.min) &&
+      isOptionalNumber(price.max) &&
+      typeof price.currency === "string" &&
+      typeof price.display === "string")
+  );
+}
+
+/**
+ * Check an event's insights, if it has any
+ */
+function isValidInsights(insights: unknown): boolean {
+  if (insights === undefined) {
+    return true;
+  }
+  if (!isObject(insights)) {
+    return false;
+  }
+  const numberFields: Array<keyof EventInsights> = ["attendance", "rank", "localRank", "predictedSpend", "durationSeconds"];
+  return (
+    numberFields.every((field) => isOptionalNumber(insights[field])) &&
+    (insights.labels === undefined ||
+      (Array.isArray(insights.labels) &&
+        insights.labels.every(
+          (entry) => isObject(entry) && typeof entry.label === "string" && isOptionalNumber(entry.weight)
+        )))
+  );
+}
+
+/**
+ * Check that an event snapshot has the right type for every field we render
+ */
+function isEventSnapshot(value: unknown, id: string): value is Event {
+  return (
+    isObject(value) &&
+    value.id === id &&
+    typeof value.name === "string" &&
+    typeof value.description === "string" &&
+    typeof value.startDate === "string" &&
+    !isNaN(new Date(value.startDate).getTime()) &&
+    typeof value.endDate === "string" &&
+    typeof value.timezone === "string" &&
+    typeof value.url === "string" &&
+    isOptionalString(value.imageUrl) &&
+    isValidVenue(value.venue) &&
+    isValidPrice(value.price) &&
+    isOptionalString(value.category) &&
+    (value.labels === undefined || isStringArray(value.labels)) &&
+    typeof value.isOnline === "boolean" &&
+    (value.status === undefined || EVENT_STATUSES.some((option) => option.value === value.status)) &&
+    isOptionalString(value.provider) &&
+    isValidInsights(value.insights)
+  );
+}
+
+/**
+ * Match the collections in an import file to existing ones by name
+ * Returns a map from the file's collection IDs to the IDs to use, plus the
+ * collections that need creating
+ */
+function mapImportedCollections(
+  imported: unknown,
+  existing: EventCollection[]
+): { idMap: Map<string, string>; created: EventCollection[] } {
+  const idMap = new Map<string, string>();
+  const created: EventCollection[] = [];
+  if (!Array.isArray(imported)) {
+    return { idMap, created };
+  }
+
+  const byName = new Map(existing.map((collection) => [collection.name.toLowerCase(), collection.id]));
+  const existingIds = new Set(existing.map((collection) => collection.id));
+
+  imported.forEach((entry: Partial<EventCollection> | null) => {
+    const id = typeof entry?.id === "string" ? entry.id : "";
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    if (!id || !name || idMap.has(id)) {
+      return;
+    }
+
+    const match = byName.get(name.toLowerCase());
+    if (match) {
+      idMap.set(id, match);
+      return;
+    }
+
+    // Keep the file's ID unless it clashes with a differently named collection
+    const newId = existingIds.has(id) ? `${id}-${Date.now().toString(36)}` : id;
+    idMap.set(id, newId);
+    byName.set(name.toLowerCase(), newId);
+    existingIds.add(newId);
+    const hasCreatedAt = typeof entry?.createdAt === "string" && !isNaN(new Date(entry.createdAt).getTime());
+    created.push({ id: newId, name, createdAt: hasCreatedAt ? entry!.createdAt! : new Date().toISOString() });
+  });
+
+  return { idMap, created };
+}
+
+/**
+ * Read an exported JSON file and work out which events to add
+ *
+ * @param text - Contents of the file
+ * @param existing - Events that are already saved
+ * @param existingCollections - Collections that already exist
+ * @param activeProvider - Event provider the app is running with
+ * @returns New events plus the entries that were skipped and why
+ * @throws Error if the file isn't a NearNow saved events export
+ */
+export function parseSavedEventsImport(
+  text: string,
+  existing: SavedEvent[],
+  existingCollections: EventCollection[],
+  activeProvider: string = process.env.NEXT_PUBLIC_EVENT_PROVIDER || "predicthq"
+): SavedEventsImportResult {
+  let data: Partial<SavedEventsExport>;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error("This file isn't valid JSON.");
+  }
+
+  if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.events)) {
+    throw new Error("This file isn't a NearNow saved events export.");
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new Error("This export was made by a newer version of NearNow.");
+  }
+
+  const result: SavedEventsImportResult = { events: [], collections: [], duplicates: [], unknown: [], invalid: [] };
+  const seen = new Set(existing.map((saved) => saved.id));
+  const { idMap, created } = mapImportedCollections(data.collections, existingCollections);
+
+  data.events.forEach((entry: Partial<SavedEvent> | null, index) => {
+    const id = entry && typeof entry.id === "string" ? entry.id.trim() : "";
+
+    if (!entry || !id) {
+      result.invalid.push(`#${index + 1}`);
+      return;
+    }
+    if (seen.has(id)) {
+      result.duplicates.push(id);
+      return;
+    }
+    const provider = typeof entry.provider === "string" && entry.provider.trim() ? entry.provider.trim() : "unknown";
+    if (!(provider === activeProvider && NON_PREDICTHQ_ID_PROVIDERS.includes(provider))) {
+      if (isOldApiId(id)) {
+        result.unknown.push(id);
+        return;
+      }
+      if (!isValidPredictHQId(id)) {
+        result.invalid.push(id);
+        return;
+      }
+    }
+
+    seen.add(id);
+    const snapshot = isEventSnapshot(entry.event, id) ? entry.event : undefined;
+    const hasSavedAt = typeof entry.savedAt === "string" && !isNaN(new Date(entry.savedAt).getTime());
+    const collectionIds = Array.isArray(entry.collectionIds)
+      ? Array.from(
+          new Set(
+            entry.collectionIds
+              .filter((collectionId) => typeof collectionId === "string")
+              .map((collectionId) => idMap.get(collectionId))
+              .filter(Boolean) as string[]
+          )
+        )
+      : [];
+    const tags = Array.isArray(entry.tags) ? normalizeTags(entry.tags.filter((tag) => typeof tag === "string")) : [];
+
+    result.events.push({
+      id,
+      // A missing or malformed snapshot is left for the background refresh to fill in
+      event: snapshot,
+      provider,
+      savedAt: hasSavedAt ? entry.savedAt! : new Date().toISOString(),
+      refreshedAt: snapshot && typeof entry.refreshedAt === "string" ? entry.refreshedAt : undefined,
+      savedStatus: EVENT_STATUSES.find((option) => option.value === entry.savedStatus)?.value,
+      collectionIds: collectionIds.length > 0 ? collectionIds : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      note: typeof entry.note === "string" ? normalizeNote(entry.note) : undefined,
+    });
+  });
+
+  result.collections = created;
+
+  return result;
+}
@@ -0,0 +1,41 @@
+/**
+ * Tag Utilities
+ *
+ * Helpers for the free-form tags and private notes users put on saved events.
+ */
+
+const MAX_TAG_LENGTH = 40;
+const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * Clean up tags typed by the user: trimmed, lowercase, no duplicates
+ *
+ * @param tags - Tags as entered
+ * @returns Tags to store
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().replace(/\s+/g, " ").toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter((tag) => tag.length > 0);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Split a comma-separated list of tags typed by the user
+ *
+ * @param input - e.g. "work, client dinner"
+ * @returns Normalized tags
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(","));
+}
+
+/**
+ * Clean up a private note: trimmed and length-limited
+ *
+ * @param note - Note as entered
+ * @returns Note to store, or undefined if it's empty
+ */
+export function normalizeNote(note: string): string | undefined {
+  return note.trim().slice(0, MAX_NOTE_LENGTH) || undefined;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { getOffsetTransitions, getTimezoneOffsetMinutes, getZonedParts, isValidTimezone } from "./timezone";
+
+describe("isValidTimezone", () => {
+  it("accepts IANA names and rejects anything else", () => {
+    expect(isValidTimezone("Africa/Lagos")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimezone("")).toBe(false);
+    expect(isValidTimezone(undefined)).toBe(false);
+  });
+});
+
+describe("getTimezoneOffsetMinutes", () => {
+  it("returns fixed offsets for zones without daylight saving", () => {
+    expect(getTimezoneOffsetMinutes(new Date("2026-01-15T12:00:00Z"), "Africa/Lagos")).toBe(60);
+    expect(getTimezoneOffsetMinutes(new Date("2026-07-15T12:00:00Z"), "Africa/Lagos")).toBe(60);
+    expect(getTimezoneOffsetMinutes(new Date("2026-07-15T12:00:00Z"), "Asia/Kolkata")).toBe(330);
+  });
+
+  it("switches at the America/New_York spring-forward (2am EST, March 8 2026)", () => {
+    expect(getTimezoneOffsetMinutes(new Date("2026-03-08T06:59:00Z"), "America/New_York")).toBe(-300);
+    expect(getTimezoneOffsetMinutes(new Date("2026-03-08T07:00:00Z"), "America/New_York")).toBe(-240);
+  });
+
+  it("switches at the America/New_York fall-back (2am EDT, November 1 2026)", () => {
+    expect(getTimezoneOffsetMinutes(new Date("2026-11-01T05:59:00Z"), "America/New_York")).toBe(-240);
+    expect(getTimezoneOffsetMinutes(new Date("2026-11-01T06:00:00Z"), "America/New_York")).toBe(-300);
+  });
+
+  it("switches at the Europe/London spring-forward (1am GMT, March 29 2026)", () => {
+    expect(getTimezoneOffsetMinutes(new Date("2026-03-29T00:59:00Z"), "Europe/London")).toBe(0);
+    expect(getTimezoneOffsetMinutes(new Date("2026-03-29T01:00:00Z"), "Europe/London")).toBe(60);
+  });
+
+  it("switches at the Europe/London fall-back (2am BST, October 25 2026)", () => {
+    expect(getTimezoneOffsetMinutes(new Date("2026-10-25T00:59:00Z"), "Europe/London")).toBe(60);
+    expect(getTimezoneOffsetMinutes(new Date("2026-10-25T01:00:00Z"), "Europe/London")).toBe(0);
+  });
+
+  it("ignores milliseconds", () => {
+    expect(getTimezoneOffsetMinutes(new Date("2026-03-08T06:59:59.999Z"), "America/New_York")).toBe(-300);
+  });
+});
+
+describe("getZonedParts", () => {
+  it("repeats the 1am hour on fall-back night", () => {
+    const firstPass = getZonedParts(new Date("2026-11-01T05:30:00Z"), "America/New_York");
+    const secondPass = getZonedParts(new Date("2026-11-01T06:30:00Z"), "America/New_York");
+    expect(firstPass).toEqual({ year: 2026, month: 11, day: 1, hour: 1, minute: 30, second: 0 });
+    expect(secondPass).toEqual(firstPass);
+  });
+});
+
+describe("getOffsetTransitions", () => {
+  it("finds both daylight saving changes in a year", () => {
+    const transitions = getOffsetTransitions(
+      "Europe/London",
+      new Date("2026-01-01T00:00:00Z"),
+      new Date("2026-12-31T00:00:00Z")
+    );
+    expect(transitions).toEqual([
+      { at: new Date("2026-03-29T01:00:00Z"), offsetFrom: 0, offsetTo: 60 },
+      { at: new Date("2026-10-25T01:00:00Z"), offsetFrom: 60, offsetTo: 0 },
+    ]);
+  });
+
+  it("returns nothing for zones without daylight saving", () => {
+    expect(
+      getOffsetTransitions("Africa/Lagos", new Date("2026-01-01T00:00:00Z"), new Date("2026-12-31T00:00:00Z"))
+    ).toEqual([]);
+  });
+});
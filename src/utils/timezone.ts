@@ -0,0 +1,133 @@
+/**
+ * Timezone Utilities
+ *
+ * Helpers for working with IANA timezones (e.g. "Africa/Lagos") using only
+ * the built-in Intl API.
+ */
+
+/**
+ * Wall-clock date and time parts in a timezone
+ */
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+}
+
+/**
+ * Check if a timezone name is one the runtime knows about
+ */
+export function isValidTimezone(timeZone: string | undefined): timeZone is string {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a timezone
+ *
+ * @param date - Instant to convert
+ * @param timeZone - IANA timezone name
+ * @returns Date and time parts as shown on a clock in that timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Get a timezone's UTC offset at a given instant
+ *
+ * @param date - Instant to check
+ * @param timeZone - IANA timezone name
+ * @returns Offset in minutes east of UTC (e.g. 60 for Africa/Lagos, -300 for New York in winter)
+ */
+export function getTimezoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  // Ignore milliseconds, which the formatted parts don't include
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * A change in a timezone's UTC offset (e.g. the start or end of daylight saving time)
+ */
+export interface OffsetTransition {
+  at: Date; // first instant with the new offset
+  offsetFrom: number; // minutes east of UTC before the transition
+  offsetTo: number; // minutes east of UTC after the transition
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Find every UTC offset change for a timezone between two instants
+ *
+ * @param timeZone - IANA timezone name
+ * @param start - Start of the range
+ * @param end - End of the range
+ * @returns Transitions in chronological order
+ */
+export function getOffsetTransitions(timeZone: string, start: Date, end: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  // Offsets change on whole minutes, so search on a minute grid
+  let previousTime = Math.floor(start.getTime() / MINUTE_MS) * MINUTE_MS;
+  let previousOffset = getTimezoneOffsetMinutes(new Date(previousTime), timeZone);
+
+  // Step a day at a time; real-world zones never change offset twice in a day
+  for (let time = previousTime + DAY_MS; previousTime < end.getTime(); time += DAY_MS) {
+    const current = Math.min(time, end.getTime());
+    const offset = getTimezoneOffsetMinutes(new Date(current), timeZone);
+
+    if (offset !== previousOffset) {
+      // Binary search for the exact minute the offset changed
+      let low = previousTime;
+      let high = current;
+      while (high - low > MINUTE_MS) {
+        const mid = low + Math.max(MINUTE_MS, Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS);
+        if (getTimezoneOffsetMinutes(new Date(mid), timeZone) === previousOffset) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+
+    previousTime = current;
+  }
+
+  return transitions;
+}